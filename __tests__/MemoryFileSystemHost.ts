@@ -0,0 +1,94 @@
+import { Directory, DirectoryLoadState, MemoryFileSystemHost, Root } from '../src'
+
+const sampleTree = {
+    app: {
+        src: {
+            components: {
+                'Header.ts': '',
+            },
+            'index.ts': 'export {}',
+        },
+        'README.md': '# app',
+    },
+}
+
+const flattened = (root: Root) => {
+    const names: string[] = []
+    for (let i = 0; i < root.branchSize; i++) {
+        names.push(root.getFileEntryAtIndex(i).fileName)
+    }
+    return names
+}
+
+describe('MemoryFileSystemHost', () => {
+    it('keeps attached roots in sync with mutations', async () => {
+        const host = new MemoryFileSystemHost({ tree: sampleTree })
+        const root = new Root(host, '/app')
+        host.attach(root)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src') as Directory)
+        expect(flattened(root)).toEqual(['src', 'components', 'index.ts', 'README.md'])
+        expect(host.watchedPaths.sort()).toEqual(['/app', '/app/src'])
+
+        host.mkdir('/app/lib')
+        host.writeFile('/app/src/utils.ts', 'export const noop = () => null', { size: 30 })
+        expect(flattened(root)).toEqual(['lib', 'src', 'components', 'index.ts', 'utils.ts', 'README.md'])
+        expect(root.findFileEntryInLoadedTree('/app/src/utils.ts').getMetadata('size')).toBe(30)
+        expect(host.readFile('/app/src/utils.ts')).toBe('export const noop = () => null')
+
+        host.rename('/app/src/index.ts', '/app/lib/index.ts')
+        expect(flattened(root)).toEqual(['lib', 'src', 'components', 'utils.ts', 'README.md'])
+        host.rename('/app/README.md', '/app/src/README.md')
+        expect(flattened(root)).toEqual(['lib', 'src', 'components', 'README.md', 'utils.ts'])
+
+        host.setMetadata('/app/src/utils.ts', { size: undefined, mtime: 1 })
+        const utilsH = root.findFileEntryInLoadedTree('/app/src/utils.ts')
+        expect(utilsH.getMetadata('size')).toBe(undefined)
+        expect(utilsH.getMetadata('mtime')).toBe(1)
+
+        host.rm('/app/src')
+        expect(flattened(root)).toEqual(['lib'])
+        expect(host.exists('/app/src/utils.ts')).toBe(false)
+        expect(host.watchedPaths).toEqual(['/app'])
+        expect(() => host.rm('/app/src')).toThrow('ENOENT')
+
+        await root.expandDirectory(root.findFileEntryInLoadedTree('/app/lib') as Directory)
+        expect(flattened(root)).toEqual(['lib', 'index.ts'])
+    })
+
+    it('injects failures and latency', async () => {
+        const host = new MemoryFileSystemHost({ tree: sampleTree, latency: (path) => path === '/app/src' ? 20 : 0 })
+        const root = new Root(host, '/app')
+        await root.ensureLoaded()
+        const srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+
+        host.injectFailure('/app/src', undefined, 1)
+        await root.expandDirectory(srcH)
+        expect(srcH.loadState).toBe(DirectoryLoadState.Error)
+        expect(srcH.loadError.code).toBe('EACCES')
+
+        const retry = srcH.retryLoad()
+        expect(srcH.loadState).toBe(DirectoryLoadState.Loading)
+        expect(await retry).toBe(true)
+        expect(srcH.children.map((c) => c.fileName)).toEqual(['components', 'index.ts'])
+    })
+
+    it('lists in pages', async () => {
+        const host = new MemoryFileSystemHost({ tree: sampleTree, pageSize: 1 })
+        const root = new Root(host, '/app')
+        let settled: () => void
+        const fullyLoaded = new Promise((res) => settled = res)
+        root.onDidChangePartialLoadState((dir, partiallyLoaded) => !partiallyLoaded && dir === root && settled())
+        await root.ensureLoaded()
+        await fullyLoaded
+        expect(flattened(root)).toEqual(['src', 'README.md'])
+    })
+
+    it('supports win32 paths', async () => {
+        const host = new MemoryFileSystemHost({ pathStyle: 'win32', tree: { 'C:': sampleTree } })
+        const root = new Root(host, 'C:\\app')
+        host.attach(root)
+        await root.ensureLoaded()
+        host.writeFile('C:\\app\\LICENSE')
+        expect(flattened(root)).toEqual(['src', 'LICENSE', 'README.md'])
+    })
+})
@@ -0,0 +1,113 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { Directory, FileType, Root } from '../src'
+import { NodeFileSystemHost } from '../src/NodeFileSystemHost'
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+    const start = Date.now()
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error('Timed out waiting for condition')
+        }
+        await new Promise((res) => setTimeout(res, 20))
+    }
+}
+
+describe('NodeFileSystemHost', () => {
+    let tmp: string
+    let host: NodeFileSystemHost
+    let root: Root
+
+    beforeAll(() => {
+        tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'aspen-')))
+        fs.mkdirSync(path.join(tmp, 'src'))
+        fs.mkdirSync(path.join(tmp, '.git'))
+        fs.writeFileSync(path.join(tmp, 'src', 'index.ts'), 'export {}')
+        fs.writeFileSync(path.join(tmp, 'README.md'), '# tmp')
+        host = new NodeFileSystemHost({ stat: true, filter: (name) => name !== '.git', watchDelay: 10 })
+        root = new Root(host, tmp)
+        host.attach(root)
+    })
+
+    afterAll(() => {
+        root.dispose()
+        host.dispose()
+        const rm = (p: string) => {
+            if (fs.statSync(p).isDirectory()) {
+                fs.readdirSync(p).forEach((name) => rm(path.join(p, name)))
+                fs.rmdirSync(p)
+            } else {
+                fs.unlinkSync(p)
+            }
+        }
+        rm(tmp)
+    })
+
+    it('lists directories with stat metadata', async () => {
+        await root.ensureLoaded()
+        expect(root.children.map((c) => c.fileName)).toEqual(['src', 'README.md'])
+        const readme = root.findFileEntryInLoadedTree(path.join(tmp, 'README.md'))
+        expect(readme.type).toBe(FileType.File)
+        expect(readme.getMetadata('size')).toBe(5)
+        expect(typeof readme.getMetadata('mtime')).toBe('number')
+        expect(typeof readme.key).toBe('string')
+    })
+
+    it('turns fs.watch notifications into watch events', async () => {
+        const srcH = root.findFileEntryInLoadedTree(path.join(tmp, 'src')) as Directory
+        await root.expandDirectory(srcH)
+        const indexH = srcH.children[0]
+
+        fs.writeFileSync(path.join(tmp, 'src', 'utils.ts'), '')
+        await waitFor(() => srcH.children.length === 2)
+        expect(srcH.children.map((c) => c.fileName)).toEqual(['index.ts', 'utils.ts'])
+
+        fs.renameSync(path.join(tmp, 'src', 'index.ts'), path.join(tmp, 'src', 'main.ts'))
+        await waitFor(() => indexH.fileName === 'main.ts')
+        expect(indexH.disposed).toBe(false)
+
+        fs.unlinkSync(path.join(tmp, 'src', 'utils.ts'))
+        await waitFor(() => srcH.children.length === 1)
+        expect(srcH.children[0]).toBe(indexH)
+    })
+
+    it('refreshes metadata of entries that change in place', async () => {
+        const readme = root.findFileEntryInLoadedTree(path.join(tmp, 'README.md'))
+        fs.writeFileSync(path.join(tmp, 'README.md'), '# tmp, edited')
+        await waitFor(() => readme.getMetadata('size') === 13)
+        expect(readme.disposed).toBe(false)
+    })
+
+    it('keeps watching for other Roots when one of them is disposed', async () => {
+        const shared = new NodeFileSystemHost({ watchDelay: 10 })
+        const a = new Root(shared, tmp)
+        const b = new Root(shared, tmp)
+        shared.attach(a)
+        shared.attach(b)
+        await Promise.all([a.ensureLoaded(), b.ensureLoaded()])
+        a.dispose()
+
+        fs.writeFileSync(path.join(tmp, 'CHANGELOG.md'), '')
+        try {
+            await waitFor(() => b.children.some((c) => c.fileName === 'CHANGELOG.md'))
+        } finally {
+            b.dispose()
+            shared.dispose()
+            fs.unlinkSync(path.join(tmp, 'CHANGELOG.md'))
+        }
+    })
+
+    it('skips stat-ing entries of an aborted listing', async () => {
+        const signal: any = { aborted: false }
+        const stat = jest.spyOn(fs.promises, 'stat')
+        const pending = host.getItems(tmp, signal)
+        signal.aborted = true
+        try {
+            expect(await pending).toEqual([])
+            expect(stat).not.toHaveBeenCalled()
+        } finally {
+            stat.mockRestore()
+        }
+    })
+})
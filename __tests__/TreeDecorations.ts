@@ -0,0 +1,100 @@
+import { Directory, MemoryFileSystemHost, Root, TreeDecorations, WatchEvent } from '../src'
+
+const sampleTree = {
+    app: {
+        src: {
+            components: {
+                'Header.ts': '',
+                'Footer.ts': '',
+            },
+            'index.ts': '',
+        },
+        'README.md': '',
+    },
+}
+
+describe('TreeDecorations', () => {
+    let host: MemoryFileSystemHost
+    let root: Root
+    let decorations: TreeDecorations
+
+    beforeEach(async () => {
+        host = new MemoryFileSystemHost({ tree: sampleTree })
+        root = new Root(host, '/app')
+        host.attach(root)
+        await root.ensureLoaded()
+        decorations = new TreeDecorations(root)
+    })
+
+    const badges = (target: string) => decorations.getAggregatedDecorations(target).map(({ provider, decoration, count }) => `${provider}:${decoration.badge}x${count}`)
+
+    it('rolls bubbling decorations up to ancestors, including unloaded ones', () => {
+        const git = decorations.registerProvider('git')
+        const problems = decorations.registerProvider('problems')
+        const changed: string[] = []
+        decorations.onDidChangeDecorations((target) => changed.push(target === root ? '<root>' : target.fileName))
+
+        git.set('/app/src/components/Header.ts', { badge: 'M', bubble: true })
+        git.set('/app/src/components/Footer.ts', { badge: 'U', priority: 1, bubble: true })
+        problems.set('/app/src/index.ts', { badge: '2', color: 'red', priority: 2, bubble: true })
+        git.set('/app/README.md', { badge: 'M' })
+        git.set('/elsewhere/file.ts', { badge: 'M', bubble: true })
+        // only `src` (and root) are loaded
+        expect(changed).toEqual(['src', '<root>', 'src', '<root>', 'src', '<root>', 'README.md'])
+
+        expect(badges('/app/src/components')).toEqual(['git:Ux2'])
+        expect(badges('/app/src')).toEqual(['problems:2x1', 'git:Ux2'])
+        expect(badges('/app')).toEqual(['problems:2x1', 'git:Ux2'])
+        expect(decorations.getDecorations(root.findFileEntryInLoadedTree('/app/README.md'))).toEqual([{ badge: 'M' }])
+
+        git.delete('/app/src/components/Footer.ts')
+        expect(badges('/app/src')).toEqual(['problems:2x1', 'git:Mx1'])
+        git.dispose()
+        expect(badges('/app')).toEqual(['problems:2x1'])
+        expect(decorations.getDecorations('/app/README.md')).toEqual([])
+        expect(() => git.set('/app/README.md', { badge: 'M' })).toThrow(`Decoration provider 'git' is disposed`)
+        expect(() => decorations.registerProvider('problems')).toThrow(TypeError)
+    })
+
+    it('follows entries across moves and drops them on removal', async () => {
+        const git = decorations.registerProvider('git')
+        const componentsH = await root.forceLoadFileEntryAtPath('/app/src/components') as Directory
+        await root.expandDirectory(componentsH)
+        git.set('/app/src/components/Header.ts', { badge: 'M', bubble: true })
+        git.set('/app/src/components/Footer.ts', { badge: 'A', bubble: true })
+
+        host.rename('/app/src/components', '/app/ui')
+        expect(componentsH.path).toBe('/app/ui')
+        expect(decorations.getDecorations('/app/ui/Header.ts')).toEqual([{ badge: 'M', bubble: true }])
+        expect(badges('/app/ui')).toEqual(['git:Mx2'])
+        expect(badges('/app/src')).toEqual([])
+        expect(badges('/app')).toEqual(['git:Mx2'])
+
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/ui/Footer.ts', newPath: '/app/src/Footer.ts' })
+        expect(badges('/app/src')).toEqual(['git:Ax1'])
+        expect(badges('/app/ui')).toEqual(['git:Mx1'])
+
+        host.rm('/app/ui')
+        expect(decorations.getDecorations('/app/ui/Header.ts')).toEqual([])
+        expect(badges('/app')).toEqual(['git:Ax1'])
+
+        root.dispose()
+        expect(decorations.disposed).toBe(true)
+    })
+
+    it('leaves decorations of paths that only share a name prefix alone', () => {
+        const git = decorations.registerProvider('git')
+        git.set('/app/src/index.ts', { badge: 'M' })
+        git.set('/app/src-old/index.ts', { badge: 'D' })
+        git.set('/app/src.bak', { badge: 'U' })
+
+        host.rename('/app/src', '/app/lib')
+        expect(decorations.getDecorations('/app/lib/index.ts')).toEqual([{ badge: 'M' }])
+        expect(decorations.getDecorations('/app/src-old/index.ts')).toEqual([{ badge: 'D' }])
+        expect(decorations.getDecorations('/app/src.bak')).toEqual([{ badge: 'U' }])
+
+        host.rm('/app/lib')
+        expect(decorations.getDecorations('/app/lib/index.ts')).toEqual([])
+        expect(decorations.getDecorations('/app/src-old/index.ts')).toEqual([{ badge: 'D' }])
+    })
+})
@@ -0,0 +1,78 @@
+import { Directory, FileType, IBasicFileSystemHost, Root, TreeStateWatcher, WatchEvent } from '../src'
+
+const sampleTree = {
+    app: {
+        src: {
+            components: {
+                'Header.ts': '',
+            },
+            models: {
+                'user.ts': '',
+            },
+        },
+        scripts: {
+            'build.ts': '',
+        },
+    },
+}
+
+function findNode(path: string[], tree) {
+    if (!path || path.length === 0) {
+        return tree
+    }
+    const next = path.shift()
+    return findNode(path, tree[next])
+}
+
+const host: IBasicFileSystemHost = {
+    pathStyle: 'unix',
+    async getItems(path) {
+        const node = findNode(path.match(/[^\/]+/g), sampleTree)
+        return Object.keys(node).map((fname) => ({
+            name: fname,
+            type: typeof node[fname] === 'string' ? FileType.File : FileType.Directory,
+        }))
+    },
+}
+
+describe('TreeStateWatcher', () => {
+    let root: Root
+    let watcher: TreeStateWatcher
+    it('tracks expanded directories', async () => {
+        root = new Root(host, '/app')
+        await root.ensureLoaded()
+        watcher = new TreeStateWatcher(root)
+        const models = await root.forceLoadFileEntryAtPath('/app/src/models') as Directory
+        await root.expandDirectory(models, false)
+        await root.expandDirectory(models.parent, false)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src/components') as Directory, false)
+        root.collapseDirectory(models.parent)
+        expect(watcher.snapshot().expandedDirectories).toEqual({
+            atSurface: [],
+            buried: ['src/components', 'src/models'],
+        })
+    })
+
+    it('follows renames and moves', async () => {
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/src/models', newPath: '/app/src/components/entities' })
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/src', newPath: '/app/lib' })
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/lib') as Directory)
+        const { atSurface, buried } = watcher.snapshot().expandedDirectories
+        expect(atSurface).toEqual(['lib', 'lib/components', 'lib/components/entities'])
+        expect(buried).toEqual([])
+    })
+
+    it('restores a snapshot onto a fresh Root', async () => {
+        const snapshot = JSON.stringify({
+            specVersion: TreeStateWatcher.specVersion,
+            expandedDirectories: { atSurface: ['src', 'src/models'], buried: ['scripts/missing', 'src/components'] },
+        })
+        const fresh = new Root(host, '/app')
+        const freshWatcher = new TreeStateWatcher(fresh)
+        await freshWatcher.restore(snapshot)
+        expect((fresh.findFileEntryInLoadedTree('src') as Directory).expanded).toBe(true)
+        expect((fresh.findFileEntryInLoadedTree('src/components') as Directory).expanded).toBe(true)
+        expect(freshWatcher.snapshot().expandedDirectories.atSurface).toEqual(['src', 'src/components', 'src/models'])
+        freshWatcher.dispose()
+    })
+})
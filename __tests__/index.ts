@@ -1,4 +1,4 @@
-import { Directory, FileType, IBasicFileSystemHost, Root } from '../src'
+import { Directory, DirectoryLoadState, FileEntry, FileOrDir, FilteredView, FileType, IAbortSignal, IBasicFileSystemHost, LoadAbortedError, MemoryFileSystemHost, MultiRootTree, PathChangedError, PathNotFoundError, Root, TreeNavigator, TreeSelection, WatchEvent, WatchEventNormalizer, comparators } from '../src'
 
 const sampleTree = {
     app: {
@@ -35,17 +35,30 @@ function findNode(path: string[], tree) {
     return findNode(path, tree[next])
 }
 
-const host: IBasicFileSystemHost = {
-    pathStyle: 'unix',
-    async getItems(path) {
-        const node = findNode(path.match(/[^\/]+/g), sampleTree)
-        return Object.keys(node).map((fname) => ({
-            name: fname,
-            type: typeof node[fname] === 'string' ? FileType.File : FileType.Directory,
-        }))
-    },
+/**
+ * Host that lists directories of given plain object tree (strings are files), changes to the tree show up on next listing
+ */
+function createHost(tree): IBasicFileSystemHost {
+    return {
+        pathStyle: 'unix',
+        async getItems(path) {
+            const node = findNode(path.match(/[^\/]+/g), tree)
+            return Object.keys(node).map((fname) => ({
+                name: fname,
+                type: typeof node[fname] === 'string' ? FileType.File : FileType.Directory,
+            }))
+        },
+    }
+}
+
+async function loadRoot(fsHost: IBasicFileSystemHost, path = '/app') {
+    const root = new Root(fsHost, path)
+    await root.ensureLoaded()
+    return root
 }
 
+const host = createHost(sampleTree)
+
 describe('Root', () => {
     let root: Root
     it('constructs with errors', () => { root = new Root(host, '/app') })
@@ -94,3 +107,1071 @@ describe('Root', () => {
             Object.keys(sampleTree.app.src.models).length)
     })
 })
+
+describe('WatchEvent.Changed', () => {
+    const tree = { app: { src: { components: { 'index.ts': '' }, models: { user: { 'index.ts': '' } } }, tests: {} } }
+    let root: Root
+    let srcH: Directory
+    let modelsH: Directory
+    let branchSize: number
+
+    beforeAll(async () => {
+        root = await loadRoot(createHost(tree))
+        srcH = await root.forceLoadFileEntryAtPath('/app/src') as Directory
+        modelsH = await root.forceLoadFileEntryAtPath('/app/src/models') as Directory
+        await root.expandDirectory(modelsH, true)
+        branchSize = root.branchSize
+        modelsH.addMetadata('marked', true)
+
+        tree.app.src['utils.ts'] = ''
+        delete tree.app.src.components
+        root.inotify({ type: WatchEvent.Changed, directory: '/app/src' })
+        await root.flushEventQueue()
+    })
+
+    it('adds and removes entries that came and went', () => {
+        expect(srcH.children.map((c) => c.fileName)).toEqual(['models', 'utils.ts'])
+    })
+
+    it('keeps surviving entries along with their state', () => {
+        expect(srcH.children[0]).toBe(modelsH)
+        expect(modelsH.expanded).toBe(true)
+        expect(modelsH.getMetadata('marked')).toBe(true)
+    })
+
+    it('updates flattened structure in place', () => {
+        expect(root.branchSize).toBe(branchSize)
+        expect((root.getFileEntryAtIndex(root.getIndexAtFileEntry(modelsH) + 2) as FileOrDir).fileName).toBe('utils.ts')
+    })
+})
+
+describe('Root#filter', () => {
+    let root: Root
+    let view: FilteredView
+    it('shows matches along with the directories leading to them', async () => {
+        root = new Root(host, '/app')
+        await root.forceLoadFileEntryAtPath('/app/scripts/build/prod.ts')
+        await root.forceLoadFileEntryAtPath('/app/tests/index.ts')
+        view = root.filter('PROD')
+        expect(view.branchSize).toBe(3)
+        expect([0, 1, 2].map((i) => view.getFileEntryAtIndex(i).fileName)).toEqual(['scripts', 'build', 'prod.ts'])
+        expect(view.isMatch(view.getFileEntryAtIndex(2))).toBe(true)
+        expect(root.branchSize).toBe(Object.keys(sampleTree.app).length)
+    })
+
+    it('updates as items are added, moved and removed', async () => {
+        root.inotify({ type: WatchEvent.Added, directory: '/app/tests', file: { name: 'prod.spec.ts', type: FileType.File } })
+        expect(view.branchSize).toBe(5)
+        expect(view.getIndexAtFileEntry(root.findFileEntryInLoadedTree('/app/tests'))).toBe(3)
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/scripts/build/prod.ts', newPath: '/app/tests/prod.ts' })
+        expect([0, 1, 2].map((i) => view.getFileEntryAtIndex(i).fileName)).toEqual(['tests', 'prod.spec.ts', 'prod.ts'])
+        root.inotify({ type: WatchEvent.Removed, path: '/app/tests' })
+        expect(view.branchSize).toBe(0)
+        view.dispose()
+    })
+})
+
+describe('FilteredView', () => {
+    const tree = { app: { lib: { 'a.spec.ts': '', 'b.ts': '', 'util': { 'c.spec.ts': '' } }, src: { 'd.ts': '', 'e.spec.ts': '' }, 'f.spec.ts': '' } }
+    let root: Root
+    let specs: FilteredView
+
+    // what the view should look like, walked from scratch
+    const leadsToMatch = (item: FileOrDir): boolean =>
+        specs.isMatch(item) || (item.type === FileType.Directory && ((item as Directory).children || []).some(leadsToMatch))
+    const expected = () => {
+        const rows: string[] = []
+        const walk = (dir: Directory) => dir.children.filter(leadsToMatch).forEach((child) => {
+            rows.push(child.path)
+            if (child.type === FileType.Directory && (child as Directory).children.some(leadsToMatch)) {
+                walk(child as Directory)
+            }
+        })
+        walk(root)
+        return rows
+    }
+    const actual = () => Array.from({ length: specs.branchSize }, (_, i) => specs.getFileEntryAtIndex(i).path)
+    const expectInSync = () => {
+        expect(actual()).toEqual(expected())
+        actual().forEach((path, i) => expect(specs.getIndexAtFileEntry(root.findFileEntryInLoadedTree(path))).toBe(i))
+    }
+
+    beforeAll(async () => {
+        root = await loadRoot(createHost(tree))
+        await root.forceLoadFileEntryAtPath('/app/lib/util/c.spec.ts')
+        await root.forceLoadFileEntryAtPath('/app/src/d.ts')
+        specs = root.filter('.spec')
+    })
+
+    afterAll(() => specs.dispose())
+
+    it('lists matches in tree order', () => {
+        expect(actual()).toEqual(['/app/lib', '/app/lib/util', '/app/lib/util/c.spec.ts', '/app/lib/a.spec.ts', '/app/src', '/app/src/e.spec.ts', '/app/f.spec.ts'])
+        expectInSync()
+    })
+
+    it('keeps its index space in sync as items are added and renamed', () => {
+        root.inotify({ type: WatchEvent.Added, directory: '/app/src', file: { name: 'g.spec.ts', type: FileType.File } })
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/lib/b.ts', newPath: '/app/lib/b.spec.ts' })
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/src/e.spec.ts', newPath: '/app/src/z.spec.ts' })
+        expectInSync()
+    })
+
+    it('keeps its index space in sync as items are moved and removed', () => {
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/lib/util', newPath: '/app/src/util' })
+        root.inotify({ type: WatchEvent.Removed, path: '/app/lib/a.spec.ts' })
+        expectInSync()
+        root.inotify({ type: WatchEvent.Removed, path: '/app/src' })
+        expect(actual()).toEqual(['/app/lib', '/app/lib/b.spec.ts', '/app/f.spec.ts'])
+        expect(specs.getFileEntryAtIndex(3)).toBeUndefined()
+    })
+})
+
+describe('TreeSelection', () => {
+    let root: Root
+    let selection: TreeSelection
+    it('selects ranges across expanded directories', async () => {
+        root = new Root(host, '/app')
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/scripts') as Directory)
+        selection = new TreeSelection(root)
+        const first = root.getFileEntryAtIndex(0) as FileOrDir
+        const last = root.getFileEntryAtIndex(root.branchSize - 1) as FileOrDir
+        selection.select(first)
+        selection.selectRange(last)
+        expect(selection.size).toBe(root.branchSize)
+        expect(selection.anchor).toBe(first)
+        expect(selection.focus).toBe(last)
+        selection.toggle(first)
+        expect(selection.isSelected(first)).toBe(false)
+        expect(selection.anchor).toBe(first)
+    })
+
+    it('prunes disposed items', () => {
+        const build = root.findFileEntryInLoadedTree('/app/scripts/build')
+        expect(selection.isSelected(build)).toBe(true)
+        const size = selection.size
+        root.inotify({ type: WatchEvent.Removed, path: '/app/scripts/build' })
+        expect(selection.isSelected(build)).toBe(false)
+        expect(selection.size).toBe(size - 1)
+        selection.dispose()
+    })
+})
+
+describe('TreeNavigator', () => {
+    let root: Root
+    let navigator: TreeNavigator
+    it('navigates with tree-view keyboard semantics', async () => {
+        root = new Root(host, '/app')
+        await root.ensureLoaded()
+        navigator = new TreeNavigator(root)
+        expect(navigator.next().fileName).toBe('scripts')
+        expect(navigator.last().fileName).toBe('tests')
+        expect(navigator.first().fileName).toBe('scripts')
+        await navigator.right()
+        expect((navigator.focused as Directory).expanded).toBe(true)
+        expect((await navigator.right()).fileName).toBe('build')
+        expect(navigator.left().fileName).toBe('scripts')
+        expect(navigator.left()).toBe(navigator.focused)
+        expect((navigator.focused as Directory).expanded).toBe(false)
+        expect(navigator.typeAhead('t').fileName).toBe('tests')
+        expect(navigator.prev().fileName).toBe('src')
+    })
+
+    it('stays on focused item when it moves', () => {
+        const srcH = navigator.focused
+        const changes = []
+        const subscription = navigator.onDidChangeFocus((focused) => changes.push(focused))
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/src', newPath: '/app/lib' })
+        subscription.dispose()
+        expect(changes).toEqual([])
+        expect(navigator.focused).toBe(srcH)
+        expect(navigator.focusedIndex).toBe(0)
+    })
+
+    it('lands on a neighbour when focused item is removed', () => {
+        const changes = []
+        navigator.onDidChangeFocus((focused, prevFocused) => changes.push([prevFocused.fileName, focused.fileName]))
+        root.inotify({ type: WatchEvent.Removed, path: '/app/lib' })
+        expect(changes).toEqual([['lib', 'scripts']])
+        expect(navigator.focused.fileName).toBe('scripts')
+        navigator.dispose()
+    })
+})
+
+describe('Root#batch', () => {
+    it('rebuilds flattened branch once and notifies once', async () => {
+        const root = new Root(host, '/app')
+        const scriptsH = await root.forceLoadFileEntryAtPath('/app/scripts') as Directory
+        const buildH = await root.forceLoadFileEntryAtPath('/app/scripts/build') as Directory
+        await root.expandDirectory(buildH, false)
+        let updates = 0
+        root.onDidUpdate(() => updates++)
+        await root.batch(async () => {
+            root.inotifyMany([
+                { type: WatchEvent.Added, directory: '/app/scripts/build', file: { name: 'test.ts', type: FileType.File } },
+                { type: WatchEvent.Added, directory: '/app', file: { name: 'README.md', type: FileType.File } },
+                { type: WatchEvent.Moved, oldPath: '/app/scripts/build/dev.sass', newPath: '/app/dev.sass' },
+            ])
+            await root.expandDirectory(scriptsH)
+        })
+        expect(updates).toBe(1)
+        const flattened = Array.from({ length: root.branchSize }, (_, i) => (root.getFileEntryAtIndex(i) as FileOrDir).fileName)
+        expect(flattened).toEqual(['scripts', 'build', 'prod.ts', 'test.ts', 'src', 'tests', 'README.md', 'dev.sass'])
+        root.collapseDirectory(scriptsH)
+        expect(root.branchSize).toBe(5)
+        await root.expandDirectory(scriptsH)
+        expect(root.getIndexAtFileEntry(root.findFileEntryInLoadedTree('/app/scripts/build/test.ts'))).toBe(3)
+    })
+})
+
+describe('Root#getIndexAtFileEntry', () => {
+    const tree = { app: { scripts: { build: { 'prod.ts': '', 'dev.sass': '' } }, src: { models: { user: { 'index.ts': '' } }, 'utils.ts': '' }, tests: {} } }
+    let root: Root
+    let modelsH: Directory
+
+    beforeAll(async () => {
+        root = await loadRoot(createHost(tree))
+        modelsH = await root.forceLoadFileEntryAtPath('/app/src/models') as Directory
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src/models/user') as Directory, false)
+        await root.expandDirectory(modelsH, true)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/scripts/build') as Directory, true)
+    })
+
+    it('agrees with Root#getFileEntryAtIndex across nested expansions', () => {
+        const flattened = Array.from({ length: root.branchSize }, (_, i) => root.getFileEntryAtIndex(i) as FileOrDir)
+        expect(flattened.map((item) => item.fileName)).toEqual(
+            ['scripts', 'build', 'dev.sass', 'prod.ts', 'src', 'models', 'user', 'index.ts', 'utils.ts', 'tests'])
+        flattened.forEach((item, i) => expect(root.getIndexAtFileEntry(item)).toBe(i))
+        expect(root.getFileEntryAtIndex(root.branchSize)).toBeUndefined()
+    })
+
+    it('returns -1 for items hidden under a collapsed directory', () => {
+        root.collapseDirectory(modelsH.parent)
+        expect(root.getIndexAtFileEntry(modelsH)).toBe(-1)
+        expect(root.isItemVisibleAtSurface(modelsH)).toBe(false)
+    })
+
+    it('keeps offsets in sync as items come and go in a large directory', async () => {
+        const files = {}
+        for (let i = 0; i < 300; i++) {
+            files[`f${i}.ts`] = ''
+        }
+        const bigRoot = await loadRoot(createHost({ app: { big: files, lib: { 'a.ts': '' } } }))
+        const bigH = bigRoot.findFileEntryInLoadedTree('/app/big') as Directory
+        await bigRoot.expandDirectory(bigH)
+        await bigRoot.expandDirectory(bigRoot.findFileEntryInLoadedTree('/app/lib') as Directory)
+        const expected = () => ['big', ...bigH.children.map((c) => c.fileName), 'lib', 'a.ts']
+        const flattened = () => Array.from({ length: bigRoot.branchSize }, (_, i) => (bigRoot.getFileEntryAtIndex(i) as FileOrDir).fileName)
+
+        for (let i = 0; i < 300; i += 7) {
+            bigRoot.inotify({ type: WatchEvent.Added, directory: '/app/big', file: { name: `g${i}.ts`, type: FileType.File } })
+            bigRoot.inotify({ type: WatchEvent.Removed, path: `/app/big/f${i}.ts` })
+            bigRoot.inotify({ type: WatchEvent.Moved, oldPath: `/app/big/f${i + 1}.ts`, newPath: `/app/big/e${i}.ts` })
+        }
+        expect(flattened()).toEqual(expected())
+        expect(bigRoot.getIndexAtFileEntry(bigRoot.findFileEntryInLoadedTree('/app/lib/a.ts'))).toBe(bigRoot.branchSize - 1)
+        bigH.children.forEach((child, i) => expect(bigRoot.getIndexAtFileEntry(child)).toBe(i + 1))
+    })
+})
+
+describe('Root#serialize', () => {
+    const tree = { app: { scripts: {}, src: { models: { user: {} }, 'utils.ts': '' }, tests: {} } }
+    const flattened = (root: Root) => Array.from({ length: root.branchSize }, (_, i) => (root.getFileEntryAtIndex(i) as FileOrDir).fileName)
+    let releaseHost: () => void
+    let hydrated: Root
+    let hydratedModelsH: Directory
+    let reconciled: Promise<void>
+
+    beforeAll(async () => {
+        const root = await loadRoot(createHost(tree))
+        const modelsH = await root.forceLoadFileEntryAtPath('/app/src/models') as Directory
+        await root.expandDirectory(modelsH, true)
+        modelsH.addMetadata('mtime', 42)
+        const serialized = JSON.parse(JSON.stringify(root.serialize()))
+        serialized.children.push({ name: 'stale.ts', type: FileType.File })
+
+        const hostAnswered = new Promise((res) => releaseHost = res)
+        const fsHost = createHost(tree)
+        const slowHost: IBasicFileSystemHost = { pathStyle: 'unix', getItems: async (path) => { await hostAnswered; return fsHost.getItems(path) } }
+        hydrated = new Root(slowHost, '/app')
+        reconciled = hydrated.hydrate(serialized)
+    })
+
+    it('hydrates a new Root before host answers', () => {
+        expect(flattened(hydrated)).toEqual(['scripts', 'src', 'models', 'user', 'utils.ts', 'tests', 'stale.ts'])
+        hydratedModelsH = hydrated.findFileEntryInLoadedTree('/app/src/models') as Directory
+        expect(hydratedModelsH.getMetadata('mtime')).toBe(42)
+    })
+
+    it('reconciles with host afterwards, keeping hydrated entries', async () => {
+        releaseHost()
+        await reconciled
+        expect(flattened(hydrated)).toEqual(['scripts', 'src', 'models', 'user', 'utils.ts', 'tests'])
+        expect(hydrated.findFileEntryInLoadedTree('/app/src/models')).toBe(hydratedModelsH)
+        expect(hydratedModelsH.expanded).toBe(true)
+    })
+})
+
+describe('Root#expandAll', () => {
+    const tree = { app: { scripts: {}, src: { models: { user: { 'index.ts': '' } }, 'utils.ts': '' }, tests: {} } }
+    let root: Root
+    let srcH: Directory
+    let updates = 0
+
+    beforeAll(async () => {
+        root = await loadRoot(createHost(tree))
+        srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+        root.onDidUpdate(() => updates++)
+    })
+
+    it('expands a whole subtree with a single update', async () => {
+        await root.expandAll(srcH)
+        expect(updates).toBe(1)
+        expect(root.branchSize).toBe(3 + 2 + 1 + 1)
+        expect((root.findFileEntryInLoadedTree('/app/src/models/user') as Directory).expanded).toBe(true)
+    })
+
+    it('collapses it back with a single update', async () => {
+        root.collapseAll(srcH)
+        expect(updates).toBe(2)
+        expect(root.branchSize).toBe(3)
+        await root.expandDirectory(srcH)
+        expect(root.branchSize).toBe(3 + 2)
+    })
+
+    it('respects maxDepth and filter', async () => {
+        const root = new Root(host, '/app')
+        await root.expandAll(root, { maxDepth: 1, filter: (dir) => dir.fileName !== 'src' })
+        expect((root.findFileEntryInLoadedTree('/app/scripts') as Directory).expanded).toBe(true)
+        expect((root.findFileEntryInLoadedTree('/app/scripts/build') as Directory).expanded).toBe(false)
+        expect((root.findFileEntryInLoadedTree('/app/src') as Directory).expanded).toBe(false)
+    })
+})
+
+describe('Root#revealPath', () => {
+    const tree = { app: { scripts: {}, src: { models: { user: { 'index.ts': '' } }, 'utils.ts': '' } } }
+    let root: Root
+
+    beforeEach(async () => {
+        root = await loadRoot(createHost(tree))
+    })
+
+    it('loads and expands parents with a single update', async () => {
+        let updates = 0
+        root.onDidUpdate(() => updates++)
+        const { item, index } = await root.revealPath('/app/src/models/user/index.ts')
+        expect(updates).toBe(1)
+        expect(item.fileName).toBe('index.ts')
+        expect(root.getFileEntryAtIndex(index)).toBe(item)
+        expect(index).toBe(4)
+    })
+
+    it('resolves with index -1 for Root itself', async () => {
+        expect(await root.revealPath('/app')).toEqual({ item: root, index: -1 })
+    })
+
+    it('rejects with the segment that failed', async () => {
+        const error: PathNotFoundError = await root.revealPath('/app/src/nope/index.ts').catch((e) => e)
+        expect(error).toBeInstanceOf(PathNotFoundError)
+        expect(error.segment).toBe('nope')
+        expect(error.path).toBe('/app/src/nope/index.ts')
+    })
+
+    it('gives up on paths that keep changing', async () => {
+        // every lookup lands on something other than what's at the path by the time it resolves
+        jest.spyOn(root, 'forceLoadFileEntryAtPath').mockImplementation(async () => root.findFileEntryInLoadedTree('/app/scripts'))
+        const error: PathChangedError = await root.revealPath('/app/src').catch((e) => e)
+        expect(error).toBeInstanceOf(PathChangedError)
+        expect(error.path).toBe('/app/src')
+        expect(error.attempts).toBe(5)
+    })
+})
+
+describe('Paginated getItems', () => {
+    const pages = [
+        ['b.ts', 'd.ts', 'lib'],
+        ['a.ts', 'c.ts', 'd.ts'],
+        ['bin', 'e.ts'],
+    ]
+    let releasePage: () => void
+    const pagedHost: IBasicFileSystemHost = {
+        pathStyle: 'unix',
+        getItems: (path) => (async function* () {
+            for (let i = 0; i < pages.length; i++) {
+                if (i > 0) {
+                    await new Promise((res) => releasePage = res)
+                }
+                yield pages[i].map((name) => ({ name, type: name.indexOf('.') > -1 ? FileType.File : FileType.Directory }))
+            }
+        })(),
+    }
+    const states: boolean[] = []
+    let root: Root
+    let reveal: Promise<FileOrDir>
+    const names = () => root.children.map((c) => c.fileName)
+
+    beforeAll(async () => {
+        root = new Root(pagedHost, '/big')
+        root.onDidChangePartialLoadState((dir, partiallyLoaded) => states.push(partiallyLoaded))
+        await root.ensureLoaded()
+    })
+
+    it('resolves with the first page', () => {
+        expect(names()).toEqual(['lib', 'b.ts', 'd.ts'])
+        expect(root.partiallyLoaded).toBe(true)
+        expect(states).toEqual([true])
+    })
+
+    it('merges pages in sort order as they arrive', async () => {
+        reveal = root.forceLoadFileEntryAtPath('/big/e.ts')
+        releasePage()
+        await new Promise((res) => setTimeout(res, 0))
+        expect(names()).toEqual(['lib', 'a.ts', 'b.ts', 'c.ts', 'd.ts'])
+        expect((root.getFileEntryAtIndex(1) as FileOrDir).fileName).toBe('a.ts')
+    })
+
+    it('finishes loading with the last page', async () => {
+        releasePage()
+        expect((await reveal).fileName).toBe('e.ts')
+        expect(names()).toEqual(['bin', 'lib', 'a.ts', 'b.ts', 'c.ts', 'd.ts', 'e.ts'])
+        expect(root.branchSize).toBe(7)
+        expect(root.partiallyLoaded).toBe(false)
+        expect(states).toEqual([true, false])
+    })
+})
+
+describe('Directory load lifecycle', () => {
+    it('reports failures and recovers through retryLoad', async () => {
+        let denied = true
+        const flakyHost: IBasicFileSystemHost = {
+            pathStyle: 'unix',
+            async getItems(path) {
+                if (path === '/app/src' && denied) {
+                    throw new Error('EACCES')
+                }
+                return host.getItems(path)
+            },
+        }
+        const root = new Root(flakyHost, '/app')
+        await root.ensureLoaded()
+        const srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+        expect(srcH.loadState).toBe(DirectoryLoadState.Idle)
+        const events: string[] = []
+        root.onWillLoadDirectory((dir) => events.push(`will:${dir.fileName}`))
+        root.onDidLoadDirectory((dir) => events.push(`did:${dir.fileName}`))
+        root.onDidFailLoadDirectory((dir, error) => events.push(`fail:${dir.fileName}:${error.message}`))
+
+        await root.expandDirectory(srcH)
+        expect(srcH.expanded).toBe(false)
+        expect(srcH.loadState).toBe(DirectoryLoadState.Error)
+        expect(srcH.loadError.message).toBe('EACCES')
+        await expect(srcH.ensureLoaded()).rejects.toThrow('EACCES')
+        expect(await srcH.retryLoad()).toBe(false)
+
+        denied = false
+        expect(await srcH.retryLoad()).toBe(true)
+        expect(srcH.loadState).toBe(DirectoryLoadState.Loaded)
+        expect(srcH.loadError).toBe(null)
+        expect(events).toEqual([
+            'will:src', 'fail:src:EACCES',
+            'will:src', 'fail:src:EACCES',
+            'will:src', 'fail:src:EACCES',
+            'will:src', 'did:src',
+        ])
+        await root.expandDirectory(srcH)
+        expect(root.branchSize).toBe(3 + srcH.children.length)
+    })
+})
+
+describe('Load cancellation', () => {
+    const pending: Array<{ path: string, signal: IAbortSignal, release: () => void }> = []
+    const slowHost: IBasicFileSystemHost = {
+        pathStyle: 'unix',
+        async getItems(path, signal) {
+            if (path !== '/app') {
+                await new Promise((res) => pending.push({ path, signal, release: res }))
+            }
+            return host.getItems(path.replace('/app/lib', '/app/src'))
+        },
+    }
+
+    let root: Root
+    let aborts = 0
+
+    beforeAll(async () => {
+        root = await loadRoot(slowHost)
+        root.onDidAbortLoadDirectory(() => aborts++)
+    })
+
+    it('aborts a load superseded by collapse', async () => {
+        const srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+        const expanding = root.expandDirectory(srcH)
+        root.collapseDirectory(srcH)
+        await expanding
+        expect(pending[0].signal.aborted).toBe(true)
+        expect(aborts).toBe(1)
+        expect(srcH.loadState).toBe(DirectoryLoadState.Idle)
+        pending.shift().release()
+        await new Promise((res) => setTimeout(res, 0))
+        expect(srcH.children).toBe(null)
+    })
+
+    it('keeps the load alive while anyone else waits for it', async () => {
+        const srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+        root.expandDirectory(srcH)
+        const loading = srcH.ensureLoaded()
+        root.collapseDirectory(srcH)
+        expect(pending[0].signal.aborted).toBe(false)
+        pending.shift().release()
+        await loading
+        expect(srcH.children.length).toBe(2)
+    })
+
+    it('starts a load over at the new path when directory moves, staying expanded', async () => {
+        const testsH = root.findFileEntryInLoadedTree('/app/tests') as Directory
+        const expanding = root.expandDirectory(testsH)
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/tests', newPath: '/app/lib' })
+        expect(pending[0].signal.aborted).toBe(true)
+        expect(pending[1].path).toBe('/app/lib')
+        expect(aborts).toBe(1)
+        pending.shift().release()
+        pending.shift().release()
+        await expanding
+        expect(testsH.expanded).toBe(true)
+        expect(testsH.children.map((c) => c.fileName)).toEqual(['components', 'models'])
+        expect(root.getIndexAtFileEntry(testsH.children[0])).toBe(root.getIndexAtFileEntry(testsH) + 1)
+    })
+
+    it('aborts a load superseded by dispose', async () => {
+        const scriptsH = root.findFileEntryInLoadedTree('/app/scripts') as Directory
+        const disposing = scriptsH.ensureLoaded().catch((e) => e)
+        root.inotify({ type: WatchEvent.Removed, path: '/app/scripts' })
+        expect(pending[0].signal.aborted).toBe(true)
+        expect(await disposing).toBeInstanceOf(LoadAbortedError)
+        expect(aborts).toBe(1)
+        pending.shift().release()
+    })
+})
+
+describe('Root#getFileEntryById', () => {
+    it('keeps a separate registry for every Root', async () => {
+        const explorer = new Root(host, '/app')
+        const scm = new Root(host, '/app/src')
+        await explorer.ensureLoaded()
+        await scm.ensureLoaded()
+        const scriptsH = explorer.findFileEntryInLoadedTree('/app/scripts')
+        const modelsH = scm.findFileEntryInLoadedTree('/app/src/models')
+        expect(explorer.getFileEntryById(scriptsH.id)).toBe(scriptsH)
+        expect(scm.getFileEntryById(modelsH.id)).toBe(modelsH)
+        expect(explorer.getFileEntryById(explorer.id)).toBe(explorer)
+        expect(scm.getFileEntryById(scm.id)).toBe(scm)
+
+        explorer.inotify({ type: WatchEvent.Removed, path: '/app/scripts' })
+        expect(scriptsH.disposed).toBe(true)
+        expect(explorer.getFileEntryById(scriptsH.id)).toBe(undefined)
+        expect(explorer.getIndexAtFileEntryID(scriptsH.id)).toBe(-1)
+    })
+})
+
+describe('Root#dispose', () => {
+    it('terminates watches, drops queued events and refuses further use', async () => {
+        const watched: Set<string> = new Set()
+        const watchingHost: IBasicFileSystemHost = {
+            ...host,
+            watch: (path) => {
+                watched.add(path)
+                return (p) => watched.delete(p)
+            },
+        }
+        const root = new Root(watchingHost, '/app')
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src/models') as Directory)
+        expect(Array.from(watched).sort()).toEqual(['/app', '/app/src', '/app/src/models'])
+        const srcH = root.findFileEntryInLoadedTree('/app/src')
+        const disposed: string[] = []
+        root.onDidDispose((target) => disposed.push(target === root ? '<root>' : target.fileName))
+        root.inotify({ type: WatchEvent.Changed, directory: '/app/src' })
+
+        root.dispose()
+        expect(watched.size).toBe(0)
+        expect(srcH.disposed).toBe(true)
+        expect(root.disposed).toBe(true)
+        expect(root.getFileEntryById(srcH.id)).toBe(undefined)
+        expect(disposed.indexOf('models')).toBeLessThan(disposed.indexOf('src'))
+        expect(disposed[disposed.length - 1]).toBe('<root>')
+        expect(await root.flushEventQueue()).toBe(undefined)
+
+        expect(() => root.inotify({ type: WatchEvent.Removed, path: '/app/src' })).toThrow('Root is disposed')
+        expect(() => root.expandDirectory(srcH as Directory)).toThrow('Root is disposed')
+        await expect(root.forceLoadFileEntryAtPath('/app/src')).rejects.toThrow('Root is disposed')
+    })
+
+    it('leaves no rows behind', async () => {
+        const root = await loadRoot(host)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src') as Directory)
+        root.dispose()
+        expect(root.branchSize).toBe(0)
+        expect(root.getFileEntryAtIndex(0)).toBe(undefined)
+    })
+})
+
+describe('Root#iterateTopDown', () => {
+    it('rejects when starting point fails to load', async () => {
+        const root = new Root({ ...host, getItems: async () => { throw new Error('EACCES') } }, '/app')
+        const visited = []
+        await expect(root.iterateTopDown((item) => visited.push(item))).rejects.toThrow('EACCES')
+        expect(visited).toEqual([])
+    })
+})
+
+describe('WatchEventNormalizer', () => {
+    let root: Root
+    let normalizer: WatchEventNormalizer
+    const received = []
+
+    beforeAll(async () => {
+        root = await loadRoot(host)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/src/models') as Directory)
+        await root.expandDirectory(await root.forceLoadFileEntryAtPath('/app/scripts/build') as Directory)
+        const inotifyMany = root.inotifyMany.bind(root)
+        root.inotifyMany = (events) => {
+            received.push(...events)
+            inotifyMany(events)
+        }
+        normalizer = new WatchEventNormalizer(root, 10)
+    })
+
+    beforeEach(() => received.length = 0)
+
+    it('dispatches once events settle, collapsing duplicates', async () => {
+        normalizer.push('add', '/app/scripts/build/test.ts')
+        normalizer.push('add', '/app/scripts/build/test.ts')
+        expect(received).toEqual([])
+        await new Promise((res) => setTimeout(res, 30))
+        expect(received).toEqual([
+            { type: WatchEvent.Added, directory: '/app/scripts/build', file: { name: 'test.ts', type: FileType.File, metadata: undefined, key: undefined } },
+        ])
+    })
+
+    it('pairs a directory rename with events for its contents', () => {
+        const userH = root.findFileEntryInLoadedTree('/app/src/models/user')
+        // chokidar reports contents of renamed directories too
+        normalizer.push('unlink', '/app/src/models/user/index.ts')
+        normalizer.push('unlinkDir', '/app/src/models/user')
+        normalizer.push('addDir', '/app/src/models/account')
+        normalizer.push('add', '/app/src/models/account/index.ts')
+        normalizer.flush()
+        expect(received).toEqual([{ type: WatchEvent.Moved, oldPath: '/app/src/models/user', newPath: '/app/src/models/account' }])
+        expect(userH.disposed).toBe(false)
+        expect(userH.path).toBe('/app/src/models/account')
+    })
+
+    it('pairs moves across directories by key', () => {
+        const prodH = root.findFileEntryInLoadedTree('/app/scripts/build/prod.ts')
+        normalizer.push('unlink', '/app/scripts/build/prod.ts', { key: 'prod' })
+        normalizer.push('add', '/app/src/prod.ts', { key: 'prod' })
+        normalizer.flush()
+        expect(received).toEqual([{ type: WatchEvent.Moved, oldPath: '/app/scripts/build/prod.ts', newPath: '/app/src/prod.ts' }])
+        expect(prodH.disposed).toBe(false)
+        expect(prodH.parent).toBe(root.findFileEntryInLoadedTree('/app/src'))
+    })
+
+    it('drops transient files and events the tree has no use for', () => {
+        normalizer.push('add', '/app/scripts/build/.tmp')
+        normalizer.push('unlink', '/app/scripts/build/.tmp')
+        normalizer.push('change', '/app/scripts/build/dev.sass')
+        normalizer.push('add', '/elsewhere/file.ts')
+        normalizer.push('add', '/app/tests/unloaded.ts')
+        normalizer.flush()
+        expect(received).toEqual([])
+    })
+
+    it('dispatches at least every maxWait while events keep coming', () => {
+        jest.useFakeTimers()
+        const streaming = new WatchEventNormalizer(root, 10, 30)
+        try {
+            for (let i = 0; i < 10; i++) {
+                streaming.push('add', `/app/scripts/gen${i}.ts`)
+                jest.advanceTimersByTime(5)
+            }
+            expect(received.map((event) => event.file.name)).toEqual(['gen0.ts', 'gen1.ts', 'gen2.ts', 'gen3.ts', 'gen4.ts', 'gen5.ts'])
+        } finally {
+            streaming.dispose()
+            jest.useRealTimers()
+        }
+    })
+
+    it('pairs moves across directories by a name nothing else in the window has', () => {
+        const buildH = root.findFileEntryInLoadedTree('/app/scripts/build') as Directory
+        normalizer.push('unlink', '/app/scripts/build/dev.sass')
+        normalizer.push('unlinkDir', '/app/scripts/build')
+        normalizer.push('addDir', '/app/src/build')
+        normalizer.flush()
+        expect(received).toEqual([{ type: WatchEvent.Moved, oldPath: '/app/scripts/build', newPath: '/app/src/build' }])
+        expect(buildH.disposed).toBe(false)
+        expect(buildH.path).toBe('/app/src/build')
+        expect(buildH.expanded).toBe(true)
+    })
+
+    it('does not pair moves across directories when the name is ambiguous', () => {
+        const prodH = root.findFileEntryInLoadedTree('/app/src/prod.ts')
+        normalizer.push('unlink', '/app/src/prod.ts')
+        normalizer.push('add', '/app/scripts/prod.ts')
+        normalizer.push('add', '/app/src/build/prod.ts')
+        normalizer.flush()
+        expect(received).toEqual([
+            { type: WatchEvent.Removed, path: '/app/src/prod.ts' },
+            { type: WatchEvent.Added, directory: '/app/scripts', file: { name: 'prod.ts', type: FileType.File, metadata: undefined, key: undefined } },
+            { type: WatchEvent.Added, directory: '/app/src/build', file: { name: 'prod.ts', type: FileType.File, metadata: undefined, key: undefined } },
+        ])
+        expect(prodH.disposed).toBe(true)
+    })
+
+    it('drops pending events on dispose', () => {
+        normalizer.push('unlinkDir', '/app/scripts')
+        normalizer.dispose()
+        expect(received).toEqual([])
+        expect(root.findFileEntryInLoadedTree('/app/scripts')).not.toBe(undefined)
+        expect(() => normalizer.push('unlinkDir', '/app/scripts')).toThrow('WatchEventNormalizer is disposed')
+    })
+})
+
+describe('Recursive watch mode', () => {
+    const watched: string[] = []
+    const terminated: string[] = []
+    const recursiveHost: IBasicFileSystemHost = {
+        ...host,
+        recursiveWatch: true,
+        watch: (path) => {
+            watched.push(path)
+            return (p) => terminated.push(p)
+        },
+    }
+    let root: Root
+    let modelsH: Directory
+
+    beforeAll(async () => {
+        root = new Root(recursiveHost, '/app')
+        modelsH = await root.forceLoadFileEntryAtPath('/app/src/models') as Directory
+        await root.expandDirectory(modelsH)
+        await root.expandDirectory(root.findFileEntryInLoadedTree('/app/src/models/user') as Directory)
+    })
+
+    it('watches once, at Root', () => {
+        expect(watched).toEqual(['/app'])
+    })
+
+    it('routes events to loaded directories', () => {
+        root.inotify({ type: WatchEvent.Added, directory: '/app/src/models', file: { name: 'post', type: FileType.Directory } })
+        expect(modelsH.children.map((c) => c.fileName)).toEqual(['post', 'user'])
+        root.inotify({ type: WatchEvent.Moved, oldPath: '/app/src/models/user/index.ts', newPath: '/app/src/models/user/main.ts' })
+        expect(root.findFileEntryInLoadedTree('/app/src/models/user/main.ts')).not.toBe(undefined)
+        root.inotify({ type: WatchEvent.Removed, path: '/app/src/models/user' })
+        expect(modelsH.children.map((c) => c.fileName)).toEqual(['post'])
+    })
+
+    it('ignores events for directories that are not loaded, unknown or outside the tree', () => {
+        root.inotify({ type: WatchEvent.Added, directory: '/app/src/models/post', file: { name: 'index.ts', type: FileType.File } })
+        root.inotify({ type: WatchEvent.Added, directory: '/app/nope', file: { name: 'index.ts', type: FileType.File } })
+        root.inotify({ type: WatchEvent.Removed, path: '/elsewhere/models' })
+        expect((modelsH.children[0] as Directory).children).toBe(null)
+        expect(modelsH.children.map((c) => c.fileName)).toEqual(['post'])
+    })
+
+    it('terminates the watch on dispose', () => {
+        root.dispose()
+        expect(watched).toEqual(['/app'])
+        expect(terminated).toEqual(['/app'])
+    })
+})
+
+describe('Root#refresh', () => {
+    let root: Root
+    let srcH: Directory
+    let libH: Directory
+    let aH: FileOrDir
+
+    beforeAll(async () => {
+        // not attached, changes happen behind the tree's back
+        const fsHost = new MemoryFileSystemHost({ tree: { app: { src: { lib: { 'a.ts': '' }, models: { 'user.ts': '' } }, 'README.md': '' } } })
+        root = await loadRoot(fsHost)
+        libH = await root.forceLoadFileEntryAtPath('/app/src/lib') as Directory
+        srcH = libH.parent
+        await root.expandDirectory(libH)
+        aH = libH.children[0]
+        fsHost.writeFile('/app/LICENSE')
+        fsHost.writeFile('/app/src/index.ts')
+        fsHost.writeFile('/app/src/lib/b.ts')
+        fsHost.writeFile('/app/src/models/post.ts')
+    })
+
+    it('re-lists given directory only', async () => {
+        await root.refresh('/app/src')
+        expect(srcH.children.map((c) => c.fileName)).toEqual(['lib', 'models', 'index.ts'])
+        expect(libH.children.length).toBe(1)
+        expect(root.children.map((c) => c.fileName)).toEqual(['src', 'README.md'])
+    })
+
+    it('re-lists loaded sub-directories too when recursive, keeping survivors', async () => {
+        await root.refresh(undefined, { recursive: true })
+        expect(root.children.map((c) => c.fileName)).toEqual(['src', 'LICENSE', 'README.md'])
+        expect(srcH.children[0]).toBe(libH)
+        expect(libH.expanded).toBe(true)
+        expect(libH.children.map((c) => c.fileName)).toEqual(['a.ts', 'b.ts'])
+        expect(libH.children[0]).toBe(aH)
+    })
+
+    it('leaves directories that were not loaded alone', () => {
+        expect((srcH.children[1] as Directory).children).toBe(null)
+    })
+
+    it('rejects paths that are missing or not directories', async () => {
+        await expect(root.refresh('/app/nope')).rejects.toThrow(PathNotFoundError)
+        await expect(root.refresh('/app/README.md')).rejects.toThrow(`it's not a directory`)
+    })
+})
+
+describe('Root#setSortComparator', () => {
+    const flattened = (root: Root) => {
+        const names: string[] = []
+        for (let i = 0; i < root.branchSize; i++) {
+            names.push((root.getFileEntryAtIndex(i) as FileOrDir).fileName)
+        }
+        return names
+    }
+    const byMtime = (a, b) => (a.getMetadata('mtime') || 0) - (b.getMetadata('mtime') || 0) || Directory.defaultSortComparator(a, b)
+    let fsHost: MemoryFileSystemHost
+    let root: Root
+    let libH: Directory
+    let aH: FileOrDir
+
+    beforeAll(async () => {
+        fsHost = new MemoryFileSystemHost({ tree: { app: { lib: { 'a.ts': '', 'b.ts': '', 'c.ts': '' }, 'x.md': '', 'y.md': '' } } })
+        root = await loadRoot(fsHost)
+        libH = root.findFileEntryInLoadedTree('/app/lib') as Directory
+        await root.expandDirectory(libH)
+        aH = libH.children[0]
+    })
+
+    it('re-sorts loaded directories with a single update', () => {
+        expect(flattened(root)).toEqual(['lib', 'a.ts', 'b.ts', 'c.ts', 'x.md', 'y.md'])
+        let updates = 0
+        const subscription = root.onDidUpdate(() => updates++)
+        root.setSortComparator((a, b) => a.fileName < b.fileName ? 1 : a.fileName > b.fileName ? -1 : 0)
+        subscription.dispose()
+        expect(updates).toBe(1)
+        expect(flattened(root)).toEqual(['y.md', 'x.md', 'lib', 'c.ts', 'b.ts', 'a.ts'])
+        expect(libH.expanded).toBe(true)
+    })
+
+    it('repositions entries when metadata they are sorted by changes', () => {
+        root.setSortComparator(byMtime, ['mtime'])
+        expect(flattened(root)).toEqual(['lib', 'a.ts', 'b.ts', 'c.ts', 'x.md', 'y.md'])
+        aH.addMetadata('mtime', 10)
+        expect(flattened(root)).toEqual(['lib', 'b.ts', 'c.ts', 'a.ts', 'x.md', 'y.md'])
+        expect(root.getIndexAtFileEntry(aH)).toBe(3)
+        libH.addMetadata('mtime', 5)
+        expect(flattened(root)).toEqual(['x.md', 'y.md', 'lib', 'b.ts', 'c.ts', 'a.ts'])
+        // not a sort key
+        aH.addMetadata('size', 1)
+        expect(flattened(root)).toEqual(['x.md', 'y.md', 'lib', 'b.ts', 'c.ts', 'a.ts'])
+    })
+
+    it('places new entries in sort order', async () => {
+        fsHost.writeFile('/app/lib/d.ts')
+        await root.refresh('/app/lib')
+        expect(flattened(root)).toEqual(['x.md', 'y.md', 'lib', 'b.ts', 'c.ts', 'd.ts', 'a.ts'])
+    })
+
+    it('goes back to the default order when given null', () => {
+        root.setSortComparator(null)
+        expect(flattened(root)).toEqual(['lib', 'a.ts', 'b.ts', 'c.ts', 'd.ts', 'x.md', 'y.md'])
+        aH.addMetadata('mtime', -1)
+        expect(root.getIndexAtFileEntry(aH)).toBe(1)
+        expect(() => root.setSortComparator('name' as any)).toThrow(TypeError)
+    })
+
+    it('re-sorts filtered views too', async () => {
+        const specsRoot = await loadRoot(createHost({ app: { lib: { 'b.spec.ts': '', 'util': { 'c.spec.ts': '' } }, 'f.spec.ts': '' } }))
+        await specsRoot.forceLoadFileEntryAtPath('/app/lib/util/c.spec.ts')
+        const specs = specsRoot.filter('.spec')
+        const rows = () => Array.from({ length: specs.branchSize }, (_, i) => specs.getFileEntryAtIndex(i).path)
+        expect(rows()).toEqual(['/app/lib', '/app/lib/util', '/app/lib/util/c.spec.ts', '/app/lib/b.spec.ts', '/app/f.spec.ts'])
+
+        specsRoot.setSortComparator((a, b) => a.type !== b.type ? (a.type === FileType.File ? -1 : 1) : Directory.defaultSortComparator(a, b))
+        expect(rows()).toEqual(['/app/f.spec.ts', '/app/lib', '/app/lib/b.spec.ts', '/app/lib/util', '/app/lib/util/c.spec.ts'])
+        rows().forEach((path, i) => expect(specs.getIndexAtFileEntry(specsRoot.findFileEntryInLoadedTree(path))).toBe(i))
+        specs.dispose()
+    })
+})
+
+describe('comparators', () => {
+    const { byExtension, byMetadata, byName, byNameCaseInsensitive, byNameLocale, byNameNatural, compose, filesFirst, foldersFirst, mixed } = comparators
+    const names = ['file10.ts', 'File2.md', 'file2.ts', 'a.md', 'B.txt', 'lib', 'docs']
+    let root: Root
+
+    beforeAll(async () => {
+        const tree = { app: {} }
+        for (const name of names) {
+            tree.app[name] = name.indexOf('.') > 0 ? '' : {}
+        }
+        root = await loadRoot(new MemoryFileSystemHost({ tree }))
+    })
+
+    const sorted = (comparator) => root.children.slice().sort(comparator).map((c) => c.fileName)
+
+    it('puts folders or files first', () => {
+        expect(sorted(compose(foldersFirst, byName))).toEqual(['docs', 'lib', 'B.txt', 'File2.md', 'a.md', 'file10.ts', 'file2.ts'])
+        expect(sorted(compose(filesFirst, byName))).toEqual(['B.txt', 'File2.md', 'a.md', 'file10.ts', 'file2.ts', 'docs', 'lib'])
+        expect(sorted(compose(mixed, byName))).toEqual(['B.txt', 'File2.md', 'a.md', 'docs', 'file10.ts', 'file2.ts', 'lib'])
+    })
+
+    it('sorts by name case-insensitively, naturally or by locale', () => {
+        expect(sorted(compose(filesFirst, byNameCaseInsensitive))).toEqual(['a.md', 'B.txt', 'file10.ts', 'File2.md', 'file2.ts', 'docs', 'lib'])
+        expect(sorted(compose(mixed, byNameNatural))).toEqual(['a.md', 'B.txt', 'docs', 'File2.md', 'file2.ts', 'file10.ts', 'lib'])
+        expect(sorted(compose(foldersFirst, byNameLocale('en')))).toEqual(['docs', 'lib', 'a.md', 'B.txt', 'File2.md', 'file2.ts', 'file10.ts'])
+    })
+
+    it('sorts by extension', () => {
+        expect(sorted(compose(foldersFirst, byExtension, byNameNatural))).toEqual(['docs', 'lib', 'a.md', 'File2.md', 'file2.ts', 'file10.ts', 'B.txt'])
+    })
+
+    it('makes up the default comparator out of foldersFirst and byName', () => {
+        expect(sorted(Directory.defaultSortComparator)).toEqual(sorted(compose(foldersFirst, byName)))
+    })
+
+    it('sorts by metadata, entries without a value last', () => {
+        const sizes = { 'file10.ts': 10, 'File2.md': 2, 'file2.ts': 2, 'a.md': 30, 'B.txt': 0, 'docs': 5 }
+        root.children.forEach((c) => c.fileName in sizes && c.addMetadata('size', sizes[c.fileName]))
+        expect(sorted(compose(byMetadata('size'), byName))).toEqual(['B.txt', 'File2.md', 'file2.ts', 'docs', 'file10.ts', 'a.md', 'lib'])
+        expect(sorted(compose(byMetadata('size', 'desc'), byName))).toEqual(['a.md', 'file10.ts', 'docs', 'File2.md', 'file2.ts', 'B.txt', 'lib'])
+    })
+})
+
+describe('Compact folders', () => {
+    const rows = (root: Root) => {
+        const result: string[] = []
+        for (let i = 0; i < root.branchSize; i++) {
+            const row = root.getFileEntryAtIndex(i)
+            result.push(Root.isCompactRow(row) ? row.directories.map((d) => d.fileName).join('/') : row.fileName)
+        }
+        return result
+    }
+
+    let fsHost: MemoryFileSystemHost
+    let root: Root
+    let srcH: Directory
+    let comH: Directory
+
+    beforeAll(async () => {
+        fsHost = new MemoryFileSystemHost({ tree: { app: { src: { main: { java: { com: { 'App.java': '' } } } }, 'pom.xml': '' } } })
+        root = await loadRoot(fsHost)
+        fsHost.attach(root)
+        root.setCompactFolders(true)
+        srcH = root.findFileEntryInLoadedTree('/app/src') as Directory
+    })
+
+    it('keeps expanding a chain while directories turn out to be only children', async () => {
+        await root.expandDirectory(srcH)
+        expect(rows(root)).toEqual(['src/main/java/com', 'App.java', 'pom.xml'])
+        comH = root.findFileEntryInLoadedTree('/app/src/main/java/com') as Directory
+        expect(comH.expanded).toBe(true)
+    })
+
+    it('describes a chain row with the directories in it', () => {
+        const chain = root.getFileEntryAtIndex(0)
+        expect(chain).toEqual({ item: comH, directories: [srcH, srcH.children[0], comH.parent, comH] })
+        expect(root.getIndexAtFileEntry(chain)).toBe(0)
+        expect(root.getIndexAtFileEntry(srcH)).toBe(0)
+        expect(root.getIndexAtFileEntry(comH)).toBe(0)
+        expect(root.getIndexAtFileEntry(comH.children[0])).toBe(1)
+    })
+
+    it('splits and merges chains as siblings come and go', () => {
+        fsHost.writeFile('/app/src/main/README.md')
+        expect(rows(root)).toEqual(['src/main', 'java/com', 'App.java', 'README.md', 'pom.xml'])
+        expect(root.getIndexAtFileEntry(comH.children[0])).toBe(2)
+        fsHost.rm('/app/src/main/README.md')
+        expect(rows(root)).toEqual(['src/main/java/com', 'App.java', 'pom.xml'])
+    })
+
+    it('collapses the deepest directory of a chain', () => {
+        root.collapseDirectory(srcH)
+        expect(comH.expanded).toBe(false)
+        expect(srcH.expanded).toBe(true)
+        expect(rows(root)).toEqual(['src/main/java/com', 'pom.xml'])
+    })
+
+    it('switches back and forth between modes', () => {
+        root.setCompactFolders(false)
+        expect(rows(root)).toEqual(['src', 'main', 'java', 'com', 'pom.xml'])
+        expect(root.getIndexAtFileEntry(comH)).toBe(3)
+        root.setCompactFolders(true)
+        expect(rows(root)).toEqual(['src/main/java/com', 'pom.xml'])
+    })
+
+    it('navigates to and from chain rows', async () => {
+        const navigator = new TreeNavigator(root)
+        navigator.focus(comH)
+        expect(navigator.left()).toBe(comH)
+        await root.expandDirectory(comH)
+        expect(rows(root)).toEqual(['src/main/java/com', 'App.java', 'pom.xml'])
+        navigator.focus(comH.children[0])
+        expect(navigator.left()).toBe(comH)
+        navigator.dispose()
+    })
+})
+
+describe('MultiRootTree', () => {
+    const rows = (tree: MultiRootTree) => {
+        const result: string[] = []
+        for (let i = 0; i < tree.branchSize; i++) {
+            const item = tree.getFileEntryAtIndex(i) as FileOrDir
+            result.push(item instanceof Root ? `[${item.path}]` : item.fileName)
+            expect(tree.getIndexAtFileEntry(item)).toBe(i)
+        }
+        return result
+    }
+
+    it('combines roots into one flattened list with header rows', async () => {
+        const appHost = new MemoryFileSystemHost({ tree: { app: { src: { 'index.ts': '' }, 'README.md': '' } } })
+        const docsHost = new MemoryFileSystemHost({ pathStyle: 'win32', tree: { 'C:': { docs: { 'intro.md': '' } } } })
+        const appRoot = new Root(appHost, '/app')
+        const docsRoot = new Root(docsHost, 'C:\\docs')
+        appHost.attach(appRoot)
+        await Promise.all([appRoot.ensureLoaded(), docsRoot.ensureLoaded()])
+        const tree = new MultiRootTree([appRoot, docsRoot])
+        const updates: Root[] = []
+        tree.onDidUpdate((root) => updates.push(root))
+        const added: string[] = []
+        tree.onDidAddItem((root, item) => added.push(`${root.path}:${item.fileName}`))
+        expect(rows(tree)).toEqual(['[/app]', 'src', 'README.md', '[C:\\docs]', 'intro.md'])
+
+        await appRoot.expandDirectory(appRoot.findFileEntryInLoadedTree('/app/src') as Directory)
+        appHost.writeFile('/app/LICENSE')
+        expect(added).toEqual(['/app:index.ts', '/app:LICENSE'])
+        expect(rows(tree)).toEqual(['[/app]', 'src', 'index.ts', 'LICENSE', 'README.md', '[C:\\docs]', 'intro.md'])
+        expect(updates).toEqual([appRoot, appRoot])
+
+        tree.collapseRoot(appRoot)
+        expect(tree.isRootExpanded(appRoot)).toBe(false)
+        expect(rows(tree)).toEqual(['[/app]', '[C:\\docs]', 'intro.md'])
+        expect(tree.getIndexAtFileEntry(appRoot.findFileEntryInLoadedTree('/app/LICENSE'))).toBe(-1)
+        tree.moveRoot(docsRoot, 0)
+        expect(rows(tree)).toEqual(['[C:\\docs]', 'intro.md', '[/app]'])
+        await tree.expandRoot(appRoot)
+        expect(rows(tree)).toEqual(['[C:\\docs]', 'intro.md', '[/app]', 'src', 'index.ts', 'LICENSE', 'README.md'])
+
+        tree.removeRoot(docsRoot)
+        expect(docsRoot.disposed).toBe(false)
+        const otherRoot = new Root(new MemoryFileSystemHost({ tree: { other: {} } }), '/other')
+        tree.addRoot(otherRoot, 0)
+        expect(() => tree.addRoot(otherRoot)).toThrow('already in this tree')
+        otherRoot.dispose()
+        expect(tree.roots).toEqual([appRoot])
+        expect(tree.getFileEntryAtIndex(tree.branchSize)).toBe(undefined)
+
+        tree.dispose()
+        appHost.writeFile('/app/CHANGELOG.md')
+        expect(added.length).toBe(2)
+    })
+})
@@ -0,0 +1,259 @@
+interface IOffsetNode<T> {
+	item: T
+	/**
+	 * Rows occupied by `item` itself
+	 */
+	rows: number
+	/**
+	 * Rows occupied by every item in the subtree of this node
+	 */
+	sum: number
+	/**
+	 * Number of nodes in the subtree of this node
+	 */
+	count: number
+	priority: number
+	left: IOffsetNode<T>
+	right: IOffsetNode<T>
+	parent: IOffsetNode<T>
+}
+
+const countOf = (node: IOffsetNode<any>) => node ? node.count : 0
+const sumOf = (node: IOffsetNode<any>) => node ? node.sum : 0
+
+/**
+ * Recomputes `sum` and `count` of the node from its children and points the children back at it
+ */
+function pull<T>(node: IOffsetNode<T>): IOffsetNode<T> {
+	node.sum = node.rows + sumOf(node.left) + sumOf(node.right)
+	node.count = 1 + countOf(node.left) + countOf(node.right)
+	if (node.left) { node.left.parent = node }
+	if (node.right) { node.right.parent = node }
+	return node
+}
+
+/**
+ * Splits the subtree into nodes before `position` and the rest
+ */
+function split<T>(node: IOffsetNode<T>, position: number): [IOffsetNode<T>, IOffsetNode<T>] {
+	if (!node) {
+		return [null, null]
+	}
+	if (countOf(node.left) < position) {
+		const [left, right] = split(node.right, position - countOf(node.left) - 1)
+		node.right = left
+		return [pull(node), right]
+	} else {
+		const [left, right] = split(node.left, position)
+		node.left = right
+		return [left, pull(node)]
+	}
+}
+
+/**
+ * Joins two subtrees, every node of `a` comes before every node of `b`
+ */
+function merge<T>(a: IOffsetNode<T>, b: IOffsetNode<T>): IOffsetNode<T> {
+	if (!a || !b) {
+		return a || b
+	}
+	if (a.priority > b.priority) {
+		a.right = merge(a.right, b)
+		return pull(a)
+	}
+	b.left = merge(a, b.left)
+	return pull(b)
+}
+
+/**
+ * Prefix sums of rows each child of a directory occupies in a flattened structure, kept in a treap ordered by position of children
+ *
+ * `Directory` keeps one for its children (a child occupies one row for itself, plus rows of its entire branch if that branch is merged into the
+ * directory's), `FilteredView` keeps one for the children of every directory that's in view.
+ *
+ * Point updates, prefix sums, lookups by offset or by child and inserting or removing a child are O(log n). Building one is O(n).
+ */
+export class BranchOffsetIndex<T> {
+	private root: IOffsetNode<T>
+	private readonly nodes: Map<T, IOffsetNode<T>>
+
+	constructor(children: T[], rowsOf: (child: T) => number) {
+		this.nodes = new Map()
+		// Cartesian tree of random priorities, built left to right along its right spine
+		const spine: Array<IOffsetNode<T>> = []
+		for (let i = 0; i < children.length; i++) {
+			const node = this.createNode(children[i], rowsOf(children[i]))
+			let last: IOffsetNode<T> = null
+			while (spine.length > 0 && spine[spine.length - 1].priority < node.priority) {
+				last = spine.pop()
+			}
+			node.left = last
+			if (spine.length > 0) {
+				spine[spine.length - 1].right = node
+			}
+			spine.push(node)
+		}
+		this.root = spine.length > 0 ? spine[0] : null
+		// sums are filled in bottom-up, i.e. in reverse of pre-order
+		const order: Array<IOffsetNode<T>> = []
+		const stack = this.root ? [this.root] : []
+		while (stack.length > 0) {
+			const node = stack.pop()
+			order.push(node)
+			if (node.left) { stack.push(node.left) }
+			if (node.right) { stack.push(node.right) }
+		}
+		for (let i = order.length - 1; i >= 0; i--) {
+			pull(order[i])
+		}
+	}
+
+	/**
+	 * Number of children
+	 */
+	get size(): number {
+		return countOf(this.root)
+	}
+
+	/**
+	 * Rows occupied by all the children
+	 */
+	get total(): number {
+		return sumOf(this.root)
+	}
+
+	/**
+	 * Position of given child in the children array (`-1` if not a child)
+	 */
+	public positionOf(child: T): number {
+		let node = this.nodes.get(child)
+		if (!node) {
+			return -1
+		}
+		let position = countOf(node.left)
+		for (; node.parent; node = node.parent) {
+			if (node.parent.right === node) {
+				position += countOf(node.parent.left) + 1
+			}
+		}
+		return position
+	}
+
+	/**
+	 * Child at given position (`undefined` if out of range)
+	 */
+	public itemAt(position: number): T {
+		let node = this.root
+		while (node) {
+			const before = countOf(node.left)
+			if (position < before) {
+				node = node.left
+			} else if (position === before) {
+				return node.item
+			} else {
+				position -= before + 1
+				node = node.right
+			}
+		}
+		return undefined
+	}
+
+	/**
+	 * Rows occupied by given child (`-1` if not a child)
+	 */
+	public rowsOf(child: T): number {
+		const node = this.nodes.get(child)
+		return node ? node.rows : -1
+	}
+
+	/**
+	 * Total rows occupied by children before the one at given position
+	 */
+	public offsetAt(position: number): number {
+		let sum = 0
+		let node = this.root
+		while (node) {
+			if (position <= countOf(node.left)) {
+				node = node.left
+			} else {
+				sum += sumOf(node.left) + node.rows
+				position -= countOf(node.left) + 1
+				node = node.right
+			}
+		}
+		return sum
+	}
+
+	/**
+	 * Changes rows occupied by given child, `false` if it's not a child
+	 */
+	public update(child: T, delta: number): boolean {
+		let node = this.nodes.get(child)
+		if (!node) {
+			return false
+		}
+		node.rows += delta
+		for (; node; node = node.parent) {
+			node.sum += delta
+		}
+		return true
+	}
+
+	/**
+	 * Position of the child whose rows cover given offset
+	 */
+	public positionAtOffset(offset: number): number {
+		let position = 0
+		let node = this.root
+		while (node) {
+			if (offset < sumOf(node.left)) {
+				node = node.left
+			} else if (offset < sumOf(node.left) + node.rows) {
+				return position + countOf(node.left)
+			} else {
+				offset -= sumOf(node.left) + node.rows
+				position += countOf(node.left) + 1
+				node = node.right
+			}
+		}
+		return position
+	}
+
+	public insert(position: number, child: T, rows: number) {
+		const [left, right] = split(this.root, position)
+		this.root = merge(merge(left, this.createNode(child, rows)), right)
+		this.root.parent = null
+	}
+
+	public remove(child: T) {
+		const node = this.nodes.get(child)
+		if (!node) {
+			return
+		}
+		this.nodes.delete(child)
+		const replacement = merge(node.left, node.right)
+		const parent = node.parent
+		if (replacement) {
+			replacement.parent = parent
+		}
+		if (!parent) {
+			this.root = replacement
+			return
+		}
+		if (parent.left === node) {
+			parent.left = replacement
+		} else {
+			parent.right = replacement
+		}
+		for (let ancestor = parent; ancestor; ancestor = ancestor.parent) {
+			ancestor.sum -= node.rows
+			ancestor.count--
+		}
+	}
+
+	private createNode(item: T, rows: number): IOffsetNode<T> {
+		const node: IOffsetNode<T> = { item, rows, sum: rows, count: 1, priority: Math.random(), left: null, right: null, parent: null }
+		this.nodes.set(item, node)
+		return node
+	}
+}
@@ -1,41 +1,121 @@
+import { BranchOffsetIndex } from './BranchOffsetIndex'
+import { byName, foldersFirst } from './comparators'
+import { LoadAbortedError } from './errors'
 import { FileEntry } from './FileEntry'
 import { Root } from './Root'
-import { FileType, IWatcherEvent, WatchEvent, WatchTerminator } from './types'
+import { DirectoryLoadState, FileType, IAbortSignal, IFileEntryItem, ISerializedFileEntry, ItemsOrPages, IWatcherEvent, WatchEvent, WatchTerminator } from './types'
 import { ITreeSupervisor } from './types'
 
 /**
- * Like Array.prototype.splice except this method won't throw
- * RangeError when given too many items (with spread operator as `...items`)
- *
- * Also items are concated straight up without having to use the spread operator
- *
- * Performance is more or less same as Array.prototype.splice
- *
- * @param arr Array to splice
- * @param start Start index where splicing should begin
- * @param deleteCount Items to delete (optionally replace with given items)
- * @param items Items to insert (when deleteCount is same as items.length, it becomes a replace)
+ * Signal given to `host.getItems`, aborted by the `LoadController` it belongs to
  */
-function spliceTypedArray(arr: Uint32Array, start: number, deleteCount: number = 0, items?: Uint32Array) {
-	const a = new Uint32Array((arr.length - deleteCount) + (items ? items.length : 0))
-	a.set(arr.slice(0, start))
-	if (items) {
-		a.set(items, start)
-	}
-	a.set(arr.slice(start + deleteCount, arr.length), (start + (items ? items.length : 0)))
-	return a
+class LoadSignal implements IAbortSignal {
+	private _aborted: boolean = false
+	private readonly listeners: Array<() => void> = []
+
+	get aborted() { return this._aborted }
+
+	public addEventListener(type: 'abort', listener: () => void) {
+		if (type === 'abort' && !this._aborted) {
+			this.listeners.push(listener)
+		}
+	}
+
+	public abort() {
+		if (this._aborted) {
+			return
+		}
+		this._aborted = true
+		const listeners = this.listeners.splice(0)
+		for (let i = 0; i < listeners.length; i++) {
+			listeners[i]()
+		}
+	}
+}
+
+/**
+ * Does for a single load what `AbortController` does, without relying on the environment to have one
+ */
+class LoadController {
+	public readonly signal: LoadSignal = new LoadSignal()
+
+	public abort() {
+		this.signal.abort()
+	}
+}
+
+/**
+ * Merges two arrays (both already sorted using `comparator`) into a new sorted array
+ */
+function mergeSorted<T>(a: T[], b: T[], comparator: (a: T, b: T) => number): T[] {
+	const merged: T[] = Array(a.length + b.length)
+	let i = 0
+	let j = 0
+	let k = 0
+	while (i < a.length && j < b.length) {
+		merged[k++] = comparator(a[i], b[j]) <= 0 ? a[i++] : b[j++]
+	}
+	while (i < a.length) {
+		merged[k++] = a[i++]
+	}
+	while (j < b.length) {
+		merged[k++] = b[j++]
+	}
+	return merged
+}
+
+/**
+ * Position at which `item` should be inserted into `sorted` to keep it sorted, after any items `comparator` considers equal
+ */
+function insertionPoint<T>(sorted: T[], item: T, comparator: (a: T, b: T) => number): number {
+	let low = 0
+	let high = sorted.length
+	while (low < high) {
+		const mid = (low + high) >>> 1
+		if (comparator(sorted[mid], item) <= 0) {
+			low = mid + 1
+		} else {
+			high = mid
+		}
+	}
+	return low
+}
+
+/**
+ * Drains the listing returned by `host.getItems` into one array
+ */
+async function collectItems(listing: ItemsOrPages, signal: IAbortSignal): Promise<IFileEntryItem[]> {
+	if (Array.isArray(listing)) {
+		return listing
+	}
+	const items: IFileEntryItem[] = []
+	for await (const page of listing) {
+		if (signal.aborted) {
+			break
+		}
+		for (let i = 0; i < (page || []).length; i++) {
+			items.push(page[i])
+		}
+	}
+	return items
 }
 
 export class Directory extends FileEntry {
+	/**
+	 * Directories first, then by `fileName` (UTF-16 code units). See `comparators` for alternatives
+	 */
 	public static defaultSortComparator(a: FileEntry | Directory, b: FileEntry | Directory) {
-		if (a.constructor === b.constructor) {
-			return a.fileName > b.fileName ? 1
-				: a.fileName < b.fileName ? -1
-					: 0
-		}
-		return a.constructor === Directory ? -1
-			: b.constructor === Directory ? 1
-				: 0
+		return foldersFirst(a, b) || byName(a, b)
+	}
+
+	/**
+	 * Number of rows taken up by the item in its parent's flattened branch (the item itself and its merged branch, if any)
+	 *
+	 * Directories compacted into their parent's row (see `Root#setCompactFolders`) take up no row of their own
+	 */
+	private static rowsOf(item: FileEntry | Directory): number {
+		const ownRow = item.parent && item.parent.compactedChild === item ? 0 : 1
+		return ownRow + ((item instanceof Directory && !item.ownsBranch) ? item._branchSize : 0)
 	}
 
 	protected _children: Array<Directory | FileEntry>
@@ -43,16 +123,43 @@ export class Directory extends FileEntry {
 	 * Directory.children.length of self and all leafs (recursive) with isExpanded = true
 	 */
 	protected _branchSize: number
-	protected flattenedBranch: Uint32Array
+	/**
+	 * `false` when the branch of this directory is merged into its parent's (when expanded), parent then accounts for these leaves too
+	 *
+	 * `true` when directory is collapsed, is waiting for its children to load before merging or is `Root`
+	 */
+	protected ownsBranch: boolean
+	private offsetIndex: BranchOffsetIndex<FileEntry | Directory>
 	private isExpanded: boolean
 	private watchTerminator: WatchTerminator
 	private hardReloadPromise: Promise<void>
-	private hardReloadPResolver: () => void
-	protected constructor(root: Root, tree: ITreeSupervisor, parent: Directory, dirName: string, optionalMetadata?: { [key: string]: any }) {
-		super(root, tree, parent, dirName, optionalMetadata)
+	/**
+	 * Whether collapsing this directory should abort the hard reload in progress (only when nobody but `setExpanded` is waiting for it)
+	 */
+	private abortOnCollapse: boolean
+	/**
+	 * Controller of the listing in progress (hard reload, remaining pages or a reconciliation)
+	 */
+	private loadController: LoadController
+	private _loadState: DirectoryLoadState
+	private _loadError: any
+	private reconcilePromise: Promise<void>
+	private reconcileRequested: boolean
+	/**
+	 * Settles once remaining pages of a paginated listing are merged in (`null` when there's nothing left to load)
+	 */
+	private remainingPagesPromise: Promise<void>
+	protected constructor(root: Root, tree: ITreeSupervisor, parent: Directory, dirName: string, optionalMetadata?: { [key: string]: any }, key?: string) {
+		super(root, tree, parent, dirName, optionalMetadata, key)
 		this.isExpanded = false
+		this.ownsBranch = true
+		this.offsetIndex = null
 		this._branchSize = 0
 		this._children = null
+		this._loadState = DirectoryLoadState.Idle
+		this._loadError = null
+		this.loadController = null
+		this.remainingPagesPromise = null
 	}
 
 	get type(): FileType {
@@ -67,6 +174,30 @@ export class Directory extends FileEntry {
 		return this.isExpanded
 	}
 
+	/**
+	 * Where this directory is in the process of loading its contents (see `Root#onWillLoadDirectory`, `Root#onDidLoadDirectory` and
+	 * `Root#onDidFailLoadDirectory` to track the changes)
+	 */
+	get loadState() {
+		return this._loadState
+	}
+
+	/**
+	 * Whatever `host.getItems` rejected with, when `Directory#loadState` is `DirectoryLoadState.Error` (`null` otherwise)
+	 */
+	get loadError() {
+		return this._loadError
+	}
+
+	/**
+	 * `true` while children are still coming in from a paginated listing (see `IBasicFileSystemHost#getItems`)
+	 *
+	 * Renderers can use this (along with `Root#onDidChangePartialLoadState`) to show a "loading more..." row at the end of the directory
+	 */
+	get partiallyLoaded() {
+		return this.remainingPagesPromise !== null
+	}
+
 	/**
 	 * Number of *visible* flattened leaves this branch is incharge of (recursive)
 	 *
@@ -78,6 +209,19 @@ export class Directory extends FileEntry {
 		return this._branchSize
 	}
 
+	/**
+	 * Only child of this directory, if that's a directory and compact folders are enabled (`Root#setCompactFolders`), `null` otherwise
+	 *
+	 * Such child shares the row of this directory in the flattened structure
+	 */
+	protected get compactedChild(): Directory {
+		if (!this._children || this._children.length !== 1 || !this.parent || !this.root.compactFolders) {
+			return null
+		}
+		const child = this._children[0]
+		return child.type === FileType.Directory ? child as Directory : null
+	}
+
 	/**
 	 * Ensures the children of this `Directory` are loaded (without effecting the `expanded` state)
 	 *
@@ -85,7 +229,10 @@ export class Directory extends FileEntry {
 	 *
 	 * Otherwise a hard reload request is issued and returned `Promise` resolves when that process finishes.
 	 *
-	 * tl;dr: `Directory#children` are accessible once the returned `Promise` resolves
+	 * tl;dr: `Directory#children` are accessible once the returned `Promise` resolves (if host lists the directory in pages, only the first page is
+	 * guaranteed to be there, see `Directory#partiallyLoaded`)
+	 *
+	 * Rejects with the error from `host.getItems` if loading fails
 	 */
 	public async ensureLoaded() {
 		if (this._children) {
@@ -94,13 +241,38 @@ export class Directory extends FileEntry {
 		return this.hardReloadChildren()
 	}
 
+	/**
+	 * Lists the directory again after a failed attempt (see `DirectoryLoadState.Error`), does nothing otherwise
+	 *
+	 * Resolves with `true` if directory is now loaded. Failures are reported through `Directory#loadError` and `Root#onDidFailLoadDirectory` again
+	 */
+	public async retryLoad(): Promise<boolean> {
+		if (this._loadState === DirectoryLoadState.Error) {
+			try {
+				await (this._children ? this.reconcileChildren() : this.hardReloadChildren())
+			} catch (error) {
+				return false
+			}
+		}
+		return this._loadState === DirectoryLoadState.Loaded
+	}
+
+	/**
+	 * If children aren't loaded yet, they are loaded first. Directory stays collapsed if that fails (see `Root#onDidFailLoadDirectory`) or if it's
+	 * collapsed before loading ends (load is aborted then)
+	 */
 	public async setExpanded(ensureVisible = true) {
 		if (this.isExpanded) {
 			return
 		}
 		this.isExpanded = true
 		if (this._children === null) {
-			await this.hardReloadChildren()
+			try {
+				await this.hardReloadChildren(true)
+			} catch (error) {
+				this.isExpanded = false
+				return
+			}
 
 			// check if still expanded; maybe setCollapsed was called in the meantime
 			if (!this.isExpanded) {
@@ -115,7 +287,7 @@ export class Directory extends FileEntry {
 		// async (user might have changed their mind in the meantime)
 		if (this.isExpanded) {
 			this._superv.notifyWillChangeExpansionState(this, true)
-			this.expandBranch(this)
+			this.expandBranch()
 			this._superv.notifyDidChangeExpansionState(this, true)
 		}
 	}
@@ -124,9 +296,12 @@ export class Directory extends FileEntry {
 		if (!this.isExpanded) {
 			return
 		}
+		if (this.hardReloadPromise && this.abortOnCollapse) {
+			this.abortLoad()
+		}
 		if (this._children && this.parent) {
 			this._superv.notifyWillChangeExpansionState(this, false)
-			this.shrinkBranch(this)
+			this.shrinkBranch()
 		}
 		this.isExpanded = false
 
@@ -147,37 +322,24 @@ export class Directory extends FileEntry {
 			item.mv(this, item.fileName)
 			return
 		}
-		if (this._children.indexOf(item) > -1) {
+		const index = this.getOffsetIndex()
+		if (index.positionOf(item) > -1) {
 			return
 		}
-		const branchSizeIncrease = 1 + ((item instanceof Directory && item.expanded) ? item._branchSize : 0)
-		this._children.push(item)
-		this._children.sort(this.root.host.sortComparator || Directory.defaultSortComparator)
-		this._branchSize += branchSizeIncrease
-		let master: Directory = this
-		while (!master.flattenedBranch) {
-			if (master.parent) {
-				master = master.parent
-				master._branchSize += branchSizeIncrease
-			}
-		}
-		let relativeInsertionIndex = this._children.indexOf(item)
-		const leadingSibling = this._children[relativeInsertionIndex - 1]
-		if (leadingSibling) {
-			const siblingIdx = master.flattenedBranch.indexOf(leadingSibling.id)
-			relativeInsertionIndex = siblingIdx + ((leadingSibling instanceof Directory && leadingSibling.expanded) ? leadingSibling._branchSize : 0)
-		} else {
-			relativeInsertionIndex = master.flattenedBranch.indexOf(this.id)
+		// expanded directories (once loaded) bring their entire branch along
+		if (item instanceof Directory && item.isExpanded && item._children) {
+			item.ownsBranch = false
 		}
-		const absInsertionIndex = relativeInsertionIndex + 1 // +1 to accomodate for itself
-
-		const branch = new Uint32Array(branchSizeIncrease)
-		branch[0] = item.id
-		if (item instanceof Directory && item.expanded && item.flattenedBranch) {
-			branch.set(item.flattenedBranch, 1)
-			item.setFlattenedBranch(null)
+		// an only child that was compacted into this directory's row gets a row of its own again
+		const compacted = this.compactedChild
+		const position = insertionPoint(this._children, item, this.root.sortComparator)
+		this._children.splice(position, 0, item)
+		const rows = Directory.rowsOf(item)
+		index.insert(position, item, rows)
+		if (compacted) {
+			index.update(compacted, 1)
 		}
-		master.setFlattenedBranch(spliceTypedArray(master.flattenedBranch, absInsertionIndex, 0, branch))
+		this.adjustBranchSize(rows + (compacted ? 1 : 0))
 	}
 
 	/**
@@ -190,37 +352,31 @@ export class Directory extends FileEntry {
 	 * Prefer using `Root#inotify` instead
 	 */
 	public unlinkItem(item: FileEntry | Directory, reparenting: boolean = false): void {
-		const idx = this._children.indexOf(item)
-		if (idx === -1) {
-			return
-		}
-		this._children.splice(idx, 1)
-		const branchSizeDecrease = 1 + ((item instanceof Directory && item.expanded) ? item._branchSize : 0)
-		this._branchSize -= branchSizeDecrease
-		// find out first owner of topDownFlatLeaves struct
-		let master: Directory = this
-		while (!master.flattenedBranch) {
-			if (master.parent) {
-				master = master.parent
-				master._branchSize -= branchSizeDecrease
+		// item is disposed before `Root#onDidUpdate` gets notified
+		this.root.batch(() => {
+			const index = this._children ? this.getOffsetIndex() : null
+			const idx = index ? index.positionOf(item) : -1
+			if (idx === -1) {
+				return
 			}
-		}
-		const removalBeginIdx = master.flattenedBranch.indexOf(item.id)
-		if (removalBeginIdx === -1) {
-			return
-		}
-		// is directory and DOES NOT owns its leaves (when directory is expanded, its leaves are owned by someone higher up) (except during transfers)
-		if (item instanceof Directory && item.expanded) {
-			item.setFlattenedBranch(master.flattenedBranch.slice(removalBeginIdx + 1, removalBeginIdx + branchSizeDecrease))
-		}
-		master.setFlattenedBranch(spliceTypedArray(
-			master.flattenedBranch,
-			removalBeginIdx,
-			branchSizeDecrease))
+			const branchSizeDecrease = Directory.rowsOf(item)
+			this._children.splice(idx, 1)
+			index.remove(item)
+			// detached directory takes its leaves back (upon reinsertion they'll be merged again, if still expanded)
+			if (item instanceof Directory) {
+				item.ownsBranch = true
+			}
+			// the sibling left behind (if it's the only one now) might get compacted into this directory's row
+			const compacted = this.compactedChild
+			if (compacted) {
+				index.update(compacted, -1)
+			}
+			this.adjustBranchSize(-branchSizeDecrease - (compacted ? 1 : 0))
 
-		if (!reparenting && item.parent === this) {
-			item.mv(null)
-		}
+			if (!reparenting && item.parent === this) {
+				item.mv(null)
+			}
+		})
 	}
 
 	public mv(to: Directory, newName: string = this.fileName) {
@@ -234,6 +390,14 @@ export class Directory extends FileEntry {
 			return
 		}
 
+		if (this.loadController && this.path !== prevPath) {
+			// listing in progress is for the old path (a hard reload starts over at the new one by itself)
+			this.abortLoad()
+			if (this._children && !this.hardReloadPromise) {
+				this.reconcileChildren()
+			}
+		}
+
 		if (typeof this.watchTerminator === 'function') {
 			this.watchTerminator(prevPath)
 			// If we got children, we gotta watch em'!
@@ -263,87 +427,262 @@ export class Directory extends FileEntry {
 			this._children.forEach((child) => (child as Directory).dispose())
 		}
 		super.dispose()
+		this.abortLoad()
+		this.offsetIndex = null
 	}
 
 	/**
-	 * Using setter as Root needs to capture when the root flat tree is altered
+	 * Called on the directory owning the branch that was just altered
+	 *
+	 * Root overrides this as it needs to capture when the root flat tree is altered
 	 */
-	protected setFlattenedBranch(leaves: Uint32Array) {
-		this.flattenedBranch = leaves
+	protected didUpdateBranch() {
+		// noop
 	}
 
-	protected expandBranch(branch: Directory) {
-		if (this !== branch) {
-			this._branchSize += branch._branchSize
+	/**
+	 * Offset of given child in the flattened branch of this directory (relative to first child), `-1` if not a child
+	 */
+	protected getChildOffset(child: FileEntry | Directory): number {
+		const index = this.getOffsetIndex()
+		const position = index.positionOf(child)
+		return position === -1 ? -1 : index.offsetAt(position)
+	}
+
+	/**
+	 * Child whose rows (itself or its merged branch) cover given offset into the flattened branch of this directory
+	 */
+	protected getChildAtOffset(offset: number): FileEntry | Directory {
+		return this._children[this.getOffsetIndex().positionAtOffset(offset)]
+	}
+
+	/**
+	 * Sorts children again using `Root#sortComparator` (loaded sub-directories are left to the caller)
+	 */
+	protected sortChildren() {
+		if (!this._children) {
+			return
+		}
+		this._children.sort(this.root.sortComparator)
+		this.offsetIndex = null
+		// rows only moved around, but whoever owns the branch should know
+		this.adjustBranchSize(0)
+	}
+
+	/**
+	 * Moves the child to where it belongs in sort order, after something the comparator looks at (like metadata) changed
+	 */
+	protected repositionChild(child: FileEntry | Directory) {
+		const children = this._children
+		const index = children ? this.getOffsetIndex() : null
+		const idx = index ? index.positionOf(child) : -1
+		if (idx === -1) {
+			return
 		}
-		// when `this` itself is in collapsed state, it'll just "adopt" given branch's leaves without propagating any further up
-		if (this !== branch && this.flattenedBranch) {
-			const injectionStartIdx = this.flattenedBranch.indexOf(branch.id) + 1
-			this.setFlattenedBranch(spliceTypedArray(this.flattenedBranch, injectionStartIdx, 0, branch.flattenedBranch))
-			// [CRITICAL] take "away" the branch ownership
-			branch.setFlattenedBranch(null)
-		} else if (this.parent) {
-			this.parent.expandBranch(branch)
+		const comparator = this.root.sortComparator
+		if ((idx === 0 || comparator(children[idx - 1], child) <= 0) && (idx === children.length - 1 || comparator(child, children[idx + 1]) <= 0)) {
+			return
 		}
+		const rows = Directory.rowsOf(child)
+		children.splice(idx, 1)
+		index.remove(child)
+		const position = insertionPoint(children, child, comparator)
+		children.splice(position, 0, child)
+		index.insert(position, child, rows)
+		this.adjustBranchSize(0)
 	}
 
-	protected shrinkBranch(branch: Directory) {
-		if (this !== branch) {
-			// branch size for `this` hasn't changed, `this` still has same number of leaves, but from parents frame of reference, their branch has shrunk
-			this._branchSize -= branch._branchSize
+	/**
+	 * Accounts for `compactedChild` gaining (or losing) its own row, call right after compact folders get toggled
+	 */
+	protected didToggleCompaction(compacted: boolean) {
+		this.adjustBranchSize(compacted ? -1 : 1, this._children[0])
+	}
+
+	/**
+	 * Merges the branch of this directory into its parent's
+	 */
+	protected expandBranch() {
+		if (!this.ownsBranch || !this.parent) {
+			return
 		}
-		if (this !== branch && this.flattenedBranch) {
-			const removalStartIdx = this.flattenedBranch.indexOf(branch.id) + 1
-			// [CRITICAL]  "return" the branch ownership
-			branch.setFlattenedBranch(this.flattenedBranch.slice(removalStartIdx, removalStartIdx + branch._branchSize))
-			this.setFlattenedBranch(spliceTypedArray(this.flattenedBranch, removalStartIdx, branch.flattenedBranch.length))
-		} else if (this.parent) {
-			this.parent.shrinkBranch(branch)
+		this.ownsBranch = false
+		this.parent.adjustBranchSize(this._branchSize, this)
+	}
+
+	/**
+	 * Takes back the branch of this directory from its parent
+	 */
+	protected shrinkBranch() {
+		if (this.ownsBranch || !this.parent) {
+			return
 		}
+		this.ownsBranch = true
+		// branch size for `this` hasn't changed, `this` still has same number of leaves, but from parents frame of reference, their branch has shrunk
+		this.parent.adjustBranchSize(-this._branchSize, this)
 	}
 
-	protected async hardReloadChildren() {
+	/**
+	 * Lists the directory and populates its children (or reconciles them if they got populated in the meantime)
+	 *
+	 * Concurrent calls share the same load. Rejects with the error from `host.getItems`, or `LoadAbortedError` if load gets aborted (moving the
+	 * directory doesn't abort it, listing starts over at the new path)
+	 *
+	 * @param forExpansion Whether `setExpanded` is the one asking, such loads are aborted if directory gets collapsed before loading ends
+	 */
+	protected hardReloadChildren(forExpansion = false): Promise<void> {
 		if (this.hardReloadPromise) {
+			// someone else needs the children too, collapsing shouldn't take them away
+			if (!forExpansion) {
+				this.abortOnCollapse = false
+			}
 			return this.hardReloadPromise
 		}
-		this.hardReloadPromise = new Promise((res) => this.hardReloadPResolver = res)
-		this.hardReloadPromise.then(() => {
-			this.hardReloadPromise = null
-			this.hardReloadPResolver = null
+		let resolve: () => void
+		let reject: (error: any) => void
+		const promise: Promise<void> = new Promise((res, rej) => {
+			resolve = res
+			reject = rej
 		})
+		const reset = () => {
+			if (this.hardReloadPromise === promise) {
+				this.hardReloadPromise = null
+			}
+		}
+		promise.then(reset, reset)
+		this.hardReloadPromise = promise
+		this.abortOnCollapse = forExpansion
+		this.listChildren(promise, resolve, reject)
+		return promise
+	}
 
-		const rawItems = await this.root.host.getItems(this.path) || []
-		if (this._children) {
-			this.shrinkBranch(this) // VERY CRITICAL (we need the ownership of topDownFlatLeaves so we can reset it)
+	/**
+	 * Resolves once children from a paginated listing are all in (immediately if nothing is pending)
+	 */
+	protected async whenFullyLoaded() {
+		while (this.remainingPagesPromise) {
+			await this.remainingPagesPromise
 		}
-		const flatTree = new Uint32Array(rawItems.length)
-		this._children = Array(rawItems.length)
-		for (let i = 0; i < rawItems.length; i++) {
-			const file = rawItems[i]
-			if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
-				FileEntry.checkRawFile(file)
+	}
+
+	/**
+	 * Populates children of this `Directory` (if not already loaded) from serialized data, without waiting for the host
+	 *
+	 * Descends into sub-directories that come with their own `children` and restores their expansion state
+	 *
+	 * @param hydrated Directories that get populated in the process are pushed here (top-down)
+	 */
+	protected hydrateChildren(items: ISerializedFileEntry[], hydrated: Directory[] = []): Directory[] {
+		if (!this._children) {
+			this.populateChildren(items)
+			if (this._loadState === DirectoryLoadState.Idle) {
+				this._loadState = DirectoryLoadState.Loaded
 			}
-			const { type, name, metadata } = file
-			const child = new (type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, name, metadata)
-			this._children[i] = child
+			hydrated.push(this)
 		}
+		const { basename } = this.root.pathfx
+		const directories: Map<string, Directory> = new Map()
+		for (let i = 0; i < this._children.length; i++) {
+			const child = this._children[i]
+			if (child instanceof Directory) {
+				directories.set(child.fileName, child)
+			}
+		}
+		for (let i = 0; i < items.length; i++) {
+			const data = items[i]
+			const child = data.type === FileType.Directory && Array.isArray(data.children) && directories.get(basename(data.name))
+			if (!child) {
+				continue
+			}
+			const wasLoaded = !!child._children
+			child.hydrateChildren(data.children, hydrated)
+			if (!wasLoaded && data.expanded && !child.isExpanded) {
+				this._superv.notifyWillChangeExpansionState(child, true)
+				child.isExpanded = true
+				child.expandBranch()
+				this._superv.notifyDidChangeExpansionState(child, true)
+			}
+		}
+		return hydrated
+	}
 
-		this._children.sort(this.root.host.sortComparator || Directory.defaultSortComparator)
-
-		for (let i = 0; i < rawItems.length; i++) {
-			flatTree[i] = this._children[i].id
+	/**
+	 * Serializable representation of this `Directory`, along with its children (recursively) if they are loaded
+	 */
+	protected toSerializedEntry(): ISerializedFileEntry {
+		const entry = super.toSerializedEntry()
+		if (!this._children) {
+			return entry
 		}
-		this._branchSize = flatTree.length
-		this.setFlattenedBranch(flatTree)
-		if (typeof this.watchTerminator === 'function') {
-			this.watchTerminator(this.path)
+		return {
+			...entry,
+			expanded: this.isExpanded,
+			children: this._children.map((child) => (child as Directory).toSerializedEntry()),
 		}
+	}
 
-		this.watchTerminator = this._superv.supervisedWatch(this.path, this.handleWatchEvent)
-		this.hardReloadPResolver()
+	/**
+	 * Re-lists the contents of this `Directory` and applies only the differences to existing children
+	 *
+	 * Children are matched by `IFileEntryItem#key` when available, otherwise by name and type. Matched children are left untouched (except for renames
+	 * detected through `key`), so they keep their ids, metadata and expansion state
+	 *
+	 * Concurrent requests are coalesced, one more pass is made after the current one finishes
+	 *
+	 * Never rejects, failures are reported through `Directory#loadError` and `Root#onDidFailLoadDirectory`
+	 */
+	protected reconcileChildren(): Promise<void> {
+		// hard reload in progress will reconcile (if needed) by itself
+		if (!this._children || this.hardReloadPromise) {
+			return this.hardReloadChildren().catch(() => undefined)
+		}
+		if (this.reconcilePromise) {
+			this.reconcileRequested = true
+			return this.reconcilePromise
+		}
+		const reconcile = async () => {
+			do {
+				this.reconcileRequested = false
+				// pages still coming in would be indistinguishable from additions
+				await this.whenFullyLoaded()
+				if (this.disposed) {
+					return
+				}
+				const controller = this.beginLoad()
+				let rawItems: IFileEntryItem[]
+				try {
+					rawItems = await collectItems(await this.root.host.getItems(this.path, controller.signal) || [], controller.signal)
+				} catch (error) {
+					if (controller.signal.aborted) {
+						continue
+					}
+					this.endLoad(controller)
+					this.didFailLoad(error)
+					return
+				}
+				// superseded (i.e. moved, in which case another pass is requested)
+				if (controller.signal.aborted) {
+					continue
+				}
+				this.endLoad(controller)
+				if (!this._children) {
+					return
+				}
+				this.applyReconciliation(rawItems)
+				if (this._loadState === DirectoryLoadState.Error) {
+					this._loadState = DirectoryLoadState.Loaded
+					this._loadError = null
+					this._superv.notifyDidLoadDirectory(this)
+				}
+			} while (this.reconcileRequested)
+		}
+		this.reconcilePromise = reconcile()
+		const reset = () => { this.reconcilePromise = null }
+		this.reconcilePromise.then(reset, reset)
+		return this.reconcilePromise
 	}
 
-	private handleWatchEvent = async (event: IWatcherEvent) => {
+	protected handleWatchEvent = async (event: IWatcherEvent) => {
 		this._superv.notifyWillProcessWatchEvent(this, event)
 		if (event.type === WatchEvent.Moved) {
 			const { oldPath, newPath } = event
@@ -355,8 +694,9 @@ export class Directory extends FileEntry {
 		} else if (event.type === WatchEvent.Added) {
 			const { file } = event
 			FileEntry.checkRawFile(file)
-			const newItem = new (file.type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, file.name, file.metadata)
+			const newItem = new (file.type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, file.name, file.metadata, file.key)
 			this.insertItem(newItem)
+			this._superv.notifyDidAddItem(newItem)
 		} else if (event.type === WatchEvent.Removed) {
 			const { path } = event
 			const dirName = this.root.pathfx.dirname(path)
@@ -368,15 +708,310 @@ export class Directory extends FileEntry {
 				}
 			}
 		} else /* Maybe generic change event */ {
-			// TODO: Try to "rehydrate" tree instead of hard reset (if possible) (maybe IFileEntryItem can have optional `id` prop? hash of (ctime + [something])?)
-			for (let i = 0; i < this._children.length; i++) {
-				(this._children[i] as Directory).dispose()
-			}
-			this.hardReloadChildren()
+			await this.reconcileChildren()
 		}
 		this._superv.notifyDidProcessWatchEvent(this, event)
 	}
 
+	private applyReconciliation(rawItems: IFileEntryItem[]) {
+		const { basename } = this.root.pathfx
+		const reconciliationKey = (type: FileType, name: string, key: string) => typeof key === 'string' ? `key:${key}` : `${type}:${name}`
+		const existing: Map<string, FileEntry | Directory> = new Map()
+		for (let i = 0; i < this._children.length; i++) {
+			const child = this._children[i]
+			existing.set(reconciliationKey(child.type, child.fileName, child.key), child)
+		}
+		const additions: IFileEntryItem[] = []
+		const renames: Array<[FileEntry | Directory, string]> = []
+		for (let i = 0; i < rawItems.length; i++) {
+			const file = rawItems[i]
+			FileEntry.checkRawFile(file)
+			const name = basename(file.name)
+			const rkey = reconciliationKey(file.type, name, file.key)
+			const match = existing.get(rkey)
+			if (match && match.type === file.type) {
+				existing.delete(rkey)
+				if (match.fileName !== name) {
+					renames.push([match, name])
+				}
+			} else {
+				additions.push(file)
+			}
+		}
+		for (const stale of existing.values()) {
+			this.unlinkItem(stale)
+		}
+		for (let i = 0; i < renames.length; i++) {
+			const [item, newName] = renames[i]
+			item.mv(this, newName)
+		}
+		for (let i = 0; i < additions.length; i++) {
+			const { type, name, metadata, key } = additions[i]
+			const newItem = new (type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, name, metadata, key)
+			this.insertItem(newItem)
+			this._superv.notifyDidAddItem(newItem)
+		}
+	}
+
+	private populateChildren(items: IFileEntryItem[]) {
+		const children: Array<Directory | FileEntry> = Array(items.length)
+		for (let i = 0; i < items.length; i++) {
+			const file = items[i]
+			if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+				FileEntry.checkRawFile(file)
+			}
+			const { type, name, metadata, key } = file
+			const child = new (type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, name, metadata, key)
+			children[i] = child
+		}
+
+		children.sort(this.root.sortComparator)
+
+		this._children = children
+		this.offsetIndex = null
+		let rows = 0
+		for (let i = 0; i < children.length; i++) {
+			rows += Directory.rowsOf(children[i])
+		}
+		this.adjustBranchSize(rows - this._branchSize)
+		if (typeof this.watchTerminator === 'function') {
+			this.watchTerminator(this.path)
+		}
+
+		this.watchTerminator = this._superv.supervisedWatch(this.path, this.handleWatchEvent)
+		for (let i = 0; i < this._children.length; i++) {
+			this._superv.notifyDidAddItem(this._children[i])
+		}
+	}
+
+	/**
+	 * Runs the listing behind hard reload `promise`
+	 *
+	 * A listing aborted because the directory moved starts over at the new path, those waiting for `promise` get the result of that one instead
+	 */
+	private listChildren(promise: Promise<void>, resolve: () => void, reject: (error: any) => void) {
+		const path = this.path
+		const controller = this.beginLoad()
+		// settles right away, no need to wait for a host that doesn't care about the signal
+		controller.signal.addEventListener('abort', () => {
+			if (this.hardReloadPromise !== promise) {
+				return
+			}
+			if (!this.disposed && this.path !== path) {
+				this.listChildren(promise, resolve, reject)
+				return
+			}
+			this.hardReloadPromise = null
+			this._loadState = this._children ? DirectoryLoadState.Loaded : DirectoryLoadState.Idle
+			if (!this.disposed) {
+				this._superv.notifyDidAbortLoadDirectory(this)
+			}
+			reject(new LoadAbortedError(path))
+		})
+		this.loadChildren(controller).then(() => {
+			if (!controller.signal.aborted) {
+				resolve()
+			}
+		}, reject)
+	}
+
+	private async loadChildren(controller: LoadController) {
+		this._loadState = DirectoryLoadState.Loading
+		this._loadError = null
+		this._superv.notifyWillLoadDirectory(this)
+		const { signal } = controller
+		let pages: AsyncIterator<IFileEntryItem[]> = null
+		try {
+			const listing = await this.root.host.getItems(this.path, signal) || []
+			if (signal.aborted) {
+				return
+			}
+			let rawItems: IFileEntryItem[]
+			if (Array.isArray(listing)) {
+				rawItems = listing
+			} else {
+				pages = listing[Symbol.asyncIterator]()
+				const firstPage = await pages.next()
+				if (signal.aborted) {
+					return
+				}
+				rawItems = (!firstPage.done && firstPage.value) || []
+				if (firstPage.done) {
+					pages = null
+				}
+			}
+			if (this._children) {
+				// children were populated in the meantime (i.e. hydrated), only the differences need to be applied
+				if (pages) {
+					rawItems = rawItems.concat(await collectItems({ [Symbol.asyncIterator]: () => pages }, signal))
+					pages = null
+					if (signal.aborted) {
+						return
+					}
+				}
+				this.applyReconciliation(rawItems)
+			} else {
+				this.populateChildren(rawItems)
+				if (pages) {
+					this.loadRemainingPages(pages, controller)
+				}
+			}
+		} catch (error) {
+			if (signal.aborted) {
+				return
+			}
+			this.endLoad(controller)
+			this.didFailLoad(error)
+			throw error
+		}
+		if (!pages) {
+			this.endLoad(controller)
+		}
+		this._loadState = DirectoryLoadState.Loaded
+		this._superv.notifyDidLoadDirectory(this)
+	}
+
+	/**
+	 * Aborts whatever listing is in progress and starts tracking a new one
+	 */
+	private beginLoad(): LoadController {
+		this.abortLoad()
+		this.loadController = new LoadController()
+		return this.loadController
+	}
+
+	private endLoad(controller: LoadController) {
+		if (this.loadController === controller) {
+			this.loadController = null
+		}
+	}
+
+	private abortLoad() {
+		const controller = this.loadController
+		if (controller) {
+			this.loadController = null
+			controller.abort()
+		}
+	}
+
+	/**
+	 * Merges rest of the pages into children in background, as they arrive
+	 *
+	 * Items already present (i.e. added through watch events in the meantime) are skipped
+	 */
+	private loadRemainingPages(pages: AsyncIterator<IFileEntryItem[]>, controller: LoadController) {
+		const { signal } = controller
+		const load = async () => {
+			for (let page = await pages.next(); !page.done; page = await pages.next()) {
+				if (signal.aborted) {
+					if (typeof pages.return === 'function') {
+						await pages.return()
+					}
+					return
+				}
+				this.mergePage(page.value || [])
+			}
+		}
+		let settle: () => void
+		const promise: Promise<void> = new Promise((res) => settle = res)
+		this.remainingPagesPromise = promise
+		this._superv.notifyDidChangePartialLoadState(this, true)
+		promise.then(() => {
+			this.endLoad(controller)
+			if (this.remainingPagesPromise !== promise) {
+				return
+			}
+			this.remainingPagesPromise = null
+			if (!this.disposed) {
+				this._superv.notifyDidChangePartialLoadState(this, false)
+			}
+		})
+		// once aborted, nobody should be kept waiting for a host that doesn't care about the signal
+		signal.addEventListener('abort', settle)
+		// directory keeps whatever it managed to load
+		load().then(settle, (error) => {
+			if (!signal.aborted) {
+				this.didFailLoad(error)
+			}
+			settle()
+		})
+	}
+
+	private didFailLoad(error: any) {
+		this._loadState = DirectoryLoadState.Error
+		this._loadError = error
+		this._superv.notifyDidFailLoadDirectory(this, error)
+	}
+
+	private mergePage(items: IFileEntryItem[]) {
+		const { basename } = this.root.pathfx
+		const present: Set<string> = new Set()
+		for (let i = 0; i < this._children.length; i++) {
+			present.add(`${this._children[i].type}:${this._children[i].fileName}`)
+		}
+		const added: Array<Directory | FileEntry> = []
+		for (let i = 0; i < items.length; i++) {
+			const file = items[i]
+			if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+				FileEntry.checkRawFile(file)
+			}
+			const { type, name, metadata, key } = file
+			const id = `${type}:${basename(name)}`
+			if (present.has(id)) {
+				continue
+			}
+			present.add(id)
+			added.push(new (type === FileType.Directory ? Directory : FileEntry)(this.root, this._superv, this, name, metadata, key))
+		}
+		if (added.length === 0) {
+			return
+		}
+		const comparator = this.root.sortComparator
+		added.sort(comparator)
+		const compacted = this.compactedChild
+		this._children = mergeSorted(this._children, added, comparator)
+		this.offsetIndex = null
+		let rows = compacted ? 1 : 0
+		for (let i = 0; i < added.length; i++) {
+			rows += Directory.rowsOf(added[i])
+		}
+		this.adjustBranchSize(rows)
+		for (let i = 0; i < added.length; i++) {
+			this._superv.notifyDidAddItem(added[i])
+		}
+	}
+
+	private getOffsetIndex() {
+		if (!this.offsetIndex) {
+			this.offsetIndex = new BranchOffsetIndex(this._children || [], Directory.rowsOf)
+		}
+		return this.offsetIndex
+	}
+
+	/**
+	 * Applies change in number of leaves to this directory and every parent whose branch includes the leaves of this one, up to (and including) the
+	 * first directory that owns its branch
+	 *
+	 * @param delta Change in number of leaves
+	 * @param via Child of this directory through which the change came (if any), to keep the offset index in sync
+	 */
+	private adjustBranchSize(delta: number, via?: FileEntry | Directory) {
+		let dir: Directory = this
+		let child = via
+		while (dir) {
+			dir._branchSize += delta
+			if (child && dir.offsetIndex && !dir.offsetIndex.update(child, delta)) {
+				dir.offsetIndex = null
+			}
+			if (dir.ownsBranch || !dir.parent) {
+				dir.didUpdateBranch()
+				return
+			}
+			child = dir
+			dir = dir.parent
+		}
+	}
+
 	private transferItem(oldPath: string, newPath: string) {
 		const { dirname, basename } = this.root.pathfx
 		const from = dirname(oldPath)
@@ -390,7 +1025,8 @@ export class Directory extends FileEntry {
 		}
 		const to = dirname(newPath)
 		const destDir = to === from ? this : this.root.findFileEntryInLoadedTree(to)
-		if (!(destDir instanceof Directory)) {
+		// destination that isn't loaded will pick the item up when it loads
+		if (!(destDir instanceof Directory) || !destDir._children) {
 			this.unlinkItem(item)
 			return
 		}
@@ -1,13 +1,8 @@
 import { Directory } from './Directory'
 import { Root } from './Root'
-import { FileType, IFileEntryItem, ITreeSupervisor, MetadataChangeType } from './types'
+import { FileType, IFileEntryItem, ISerializedFileEntry, ITreeSupervisor, MetadataChangeType } from './types'
 
 export class FileEntry {
-	public static nextId = (() => {
-		let id = 0
-		return () => id++
-	})()
-
 	public static checkRawFile(file: IFileEntryItem) {
 		if (file === null || typeof file !== 'object') {
 			throw new TypeError(`Item must be IFileEntryItem object. See docs for more info`)
@@ -20,34 +15,30 @@ export class FileEntry {
 		}
 	}
 
-	public static getFileEntryById(id: number) {
-		return FileEntry.idToFileEntry.get(id)
-	}
-
-	private static idToFileEntry: Map<number, FileEntry> = new Map()
 	protected _uid: number
 	protected _depth: number
 	protected _fileName: string
 	protected _superv: ITreeSupervisor
+	protected _key: string
 	private _metadata: { [key: string]: any }
 	private _root: Root
 	private _parent: Directory
 	private _disposed: boolean
 	private resolvedPathCache: string
 
-	protected constructor(root: Root, tree: ITreeSupervisor, parent: Directory, fileName: string, optionalMetadata?: { [key: string]: any }) {
-		this._uid = FileEntry.nextId()
+	protected constructor(root: Root, tree: ITreeSupervisor, parent: Directory, fileName: string, optionalMetadata?: { [key: string]: any }, key?: string) {
+		this._uid = tree.registerFileEntry(this)
 		this._root = root ? root : (this as any) as Root // 'this' IS Root
 		this._parent = parent
 		this._superv = tree
 		this._disposed = false
 		this._metadata = { ...(optionalMetadata || {}) }
+		this._key = typeof key === 'string' ? key : null
 		this._depth = parent ? parent.depth + 1 : 0
 		if (parent && typeof fileName === 'string') {
 			fileName = root.pathfx.basename(fileName)
 			this._fileName = fileName
 		}
-		FileEntry.idToFileEntry.set(this._uid, this)
 	}
 
 	get type(): FileType {
@@ -70,6 +61,11 @@ export class FileEntry {
 	get id() { return this._uid }
 	get fileName() { return this._fileName }
 
+	/**
+	 * Stable key as given by `IFileEntryItem#key` (`null` if none was provided)
+	 */
+	get key() { return this._key }
+
 	/**
 	 * Full absolute path of this item
 	 */
@@ -91,35 +87,38 @@ export class FileEntry {
 	 * Prefer using `Root#inotify` instead
 	 */
 	public mv(to: Directory, fname: string = this.fileName) {
-		const prevParent = this._parent
-		if (to === null || to.type !== FileType.Directory) { // that's the best check we can do; `parent instanceof Directory` causes a cyclic dependency
-			this.dispose()
-			this._parent = null
-			prevParent.unlinkItem(this)
-			return
-		}
-		const didChangeParent = prevParent !== to
-		const prevPath = this.path
-
-		this.resolvedPathCache = null
-		this._depth = to._depth + 1
-
-		if (didChangeParent || fname !== this.fileName /* change in filename means change in sort order */) {
-			this._fileName = fname
-			if (didChangeParent) {
-				this._superv.notifyWillChangeParent(this, prevParent, to)
+		// unlink and insert are a single update as far as `Root#onDidUpdate` is concerned
+		this._root.batch(() => {
+			const prevParent = this._parent
+			if (to === null || to.type !== FileType.Directory) { // that's the best check we can do; `parent instanceof Directory` causes a cyclic dependency
+				this.dispose()
+				this._parent = null
+				prevParent.unlinkItem(this)
+				return
 			}
-			this._parent.unlinkItem(this, true)
-			this._parent = to
-			this._parent.insertItem(this)
-			if (didChangeParent) {
-				this._superv.notifyDidChangeParent(this, prevParent, to)
+			const didChangeParent = prevParent !== to
+			const prevPath = this.path
+
+			this.resolvedPathCache = null
+			this._depth = to._depth + 1
+
+			if (didChangeParent || fname !== this.fileName /* change in filename means change in sort order */) {
+				this._fileName = fname
+				if (didChangeParent) {
+					this._superv.notifyWillChangeParent(this, prevParent, to)
+				}
+				this._parent.unlinkItem(this, true)
+				this._parent = to
+				this._parent.insertItem(this)
+				if (didChangeParent) {
+					this._superv.notifyDidChangeParent(this, prevParent, to)
+				}
 			}
-		}
 
-		if (this.path !== prevPath) {
-			this._superv.notifyDidChangePath(this)
-		}
+			if (this.path !== prevPath) {
+				this._superv.notifyDidChangePath(this, prevPath)
+			}
+		})
 	}
 
 	public getMetadata(withKey: string): any {
@@ -145,11 +144,19 @@ export class FileEntry {
 		}
 	}
 
+	/**
+	 * Serializable representation of this item (metadata is shallow copied as is, it must be JSON friendly for the result to be)
+	 */
+	protected toSerializedEntry(): ISerializedFileEntry {
+		const entry = { name: this.fileName, type: this.type, metadata: { ...this._metadata } }
+		return this._key === null ? entry : { ...entry, key: this._key }
+	}
+
 	protected dispose() {
 		if (this._disposed) { return }
 		this._superv.notifyWillDispose(this)
 		this._disposed = true
-		FileEntry.idToFileEntry.delete(this._uid)
+		this._superv.unregisterFileEntry(this)
 		this._superv.notifyDidDispose(this)
 	}
 }
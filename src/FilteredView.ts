@@ -0,0 +1,392 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { BranchOffsetIndex } from './BranchOffsetIndex'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir, FileType, SortComparator } from './types'
+
+enum FilteredViewEvent {
+	DidUpdate = 1,
+}
+
+/**
+ * Predicate as expected by `Root#filter`. Return `true` to include the item in the view
+ */
+export type FilterPredicate = (item: FileOrDir) => boolean
+
+/**
+ * Flattened view of a `Root` that contains only the items matching a filter, plus the directories needed to reach them
+ *
+ * View has its own index space (`FilteredView#branchSize`, `FilteredView#getFileEntryAtIndex`), independent of the flattened structure of `Root`.
+ * Directories leading to a match are always shown in "expanded" state, regardless of their actual expansion state.
+ *
+ * Only items that are loaded are considered. View updates itself as items are added, removed, moved, renamed or their metadata changes.
+ *
+ * Every directory in view keeps an offset index of its children that are in view (much like `Directory` does for `Root`), changes are spliced into
+ * those along the path to `Root`, so lookups and updates cost `O(depth * log(siblings))` instead of a walk over the whole view.
+ */
+export class FilteredView {
+	/**
+	 * Case insensitive substring match against `fileName`
+	 */
+	private static toPredicate(filter: FilterPredicate | string): FilterPredicate {
+		if (typeof filter === 'function') {
+			return filter
+		}
+		if (typeof filter !== 'string') {
+			throw new TypeError(`Filter must either be a predicate function or a string`)
+		}
+		const query = filter.toLowerCase()
+		return (item) => item.fileName.toLowerCase().indexOf(query) > -1
+	}
+
+	private root: Root
+	private predicate: FilterPredicate
+	private events: Notificar<FilteredViewEvent>
+	private disposables: DisposablesComposite
+	/**
+	 * Items for which `predicate` returned `true`
+	 */
+	private matches: Set<FileOrDir>
+	/**
+	 * Number of matching descendants (recursive) of a directory
+	 */
+	private descendantMatches: Map<Directory, number>
+	/**
+	 * Children in view of every directory in view (`Root` included), by directory. Lazily built when the view is first accessed (and after the filter
+	 * or `Root#sortComparator` changes), kept up to date afterwards
+	 */
+	private indexes: Map<Directory, BranchOffsetIndex<FileOrDir>>
+	/**
+	 * Comparator `indexes` are ordered by
+	 */
+	private comparator: SortComparator
+	private _disposed: boolean
+
+	constructor(root: Root, filter: FilterPredicate | string) {
+		this.root = root
+		this.events = new Notificar()
+		this.disposables = new DisposablesComposite()
+		this.matches = new Set()
+		this.descendantMatches = new Map()
+		this.indexes = null
+		this.comparator = null
+		this._disposed = false
+		this.predicate = FilteredView.toPredicate(filter)
+		this.collectMatches(root)
+
+		this.disposables.add(root.onDidAddItem(this.handleAdd))
+		this.disposables.add(root.onWillDispose(this.handleDispose))
+		this.disposables.add(root.onDidChangeParent(this.handleParentChange))
+		this.disposables.add(root.onDidChangePath(this.reevaluate))
+		this.disposables.add(root.onDidChangeMetadata(this.reevaluate))
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Number of items in the view
+	 */
+	get branchSize() {
+		return this.ensureIndexed().get(this.root).total
+	}
+
+	/**
+	 * Lookup filtered flattened structure by index
+	 */
+	public getFileEntryAtIndex(index: number): FileOrDir {
+		const indexes = this.ensureIndexed()
+		if (index < 0) {
+			return undefined
+		}
+		for (let dir: Directory = this.root; ; ) {
+			const offsets = indexes.get(dir)
+			if (!offsets || index >= offsets.total) {
+				return undefined
+			}
+			const position = offsets.positionAtOffset(index)
+			const item = offsets.itemAt(position)
+			index -= offsets.offsetAt(position)
+			if (index === 0) {
+				return item
+			}
+			// skip the row of `item` itself
+			index--
+			dir = item as Directory
+		}
+	}
+
+	/**
+	 * Reverse of `FilteredView#getFileEntryAtIndex`, returns `-1` if item is not in the view
+	 */
+	public getIndexAtFileEntry(item: FileOrDir): number {
+		const indexes = this.ensureIndexed()
+		if (!item || item === this.root) {
+			return -1
+		}
+		let index = 0
+		for (let child = item; child !== this.root; child = child.parent) {
+			const offsets = child.parent && indexes.get(child.parent)
+			const position = offsets ? offsets.positionOf(child) : -1
+			if (position === -1) {
+				return -1
+			}
+			index += offsets.offsetAt(position) + (child.parent === this.root ? 0 : 1)
+		}
+		return index
+	}
+
+	/**
+	 * Whether the item itself matches the filter (as opposed to being in view only to lead to a match)
+	 */
+	public isMatch(item: FileOrDir): boolean {
+		return this.matches.has(item)
+	}
+
+	/**
+	 * Replaces the filter and re-evaluates every loaded item
+	 */
+	public setFilter(filter: FilterPredicate | string) {
+		this.predicate = FilteredView.toPredicate(filter)
+		this.matches.clear()
+		this.descendantMatches.clear()
+		this.collectMatches(this.root)
+		this.indexes = null
+		this.didUpdate()
+	}
+
+	public onDidUpdate(callback: () => void): IDisposable {
+		return this.events.add(FilteredViewEvent.DidUpdate, callback)
+	}
+
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		this.disposables.dispose()
+		this.matches.clear()
+		this.descendantMatches.clear()
+		this.indexes = null
+	}
+
+	private isIncluded(item: FileOrDir) {
+		return this.matches.has(item) || this.descendantMatches.get(item as Directory) > 0
+	}
+
+	/**
+	 * Whether `indexes` are there and still in sort order
+	 */
+	private get indexed(): boolean {
+		if (this.indexes && this.comparator !== this.root.sortComparator) {
+			// children got re-sorted wholesale, cheaper to start over
+			this.indexes = null
+		}
+		return !!this.indexes
+	}
+
+	private ensureIndexed() {
+		if (!this.indexed) {
+			this.indexes = new Map()
+			this.comparator = this.root.sortComparator
+			this.buildIndex(this.root)
+		}
+		return this.indexes
+	}
+
+	/**
+	 * Builds offset indexes of the directory and every directory in view below it, returns rows the directory's children take up in the view
+	 */
+	private buildIndex(directory: Directory): number {
+		const children = (directory.children || []).filter((child) => this.isIncluded(child))
+		const offsets = new BranchOffsetIndex(children, (child) =>
+			1 + (this.descendantMatches.get(child as Directory) > 0 ? this.buildIndex(child as Directory) : 0))
+		this.indexes.set(directory, offsets)
+		return offsets.total
+	}
+
+	/**
+	 * Rows the item (along with its children) takes up in the view, `-1` if it's not in view
+	 */
+	private rowsInView(item: FileOrDir): number {
+		if (!this.isIncluded(item)) {
+			return -1
+		}
+		const offsets = this.descendantMatches.get(item as Directory) > 0 && this.indexes.get(item as Directory)
+		return 1 + (offsets ? offsets.total : 0)
+	}
+
+	/**
+	 * Splices the current state of the item into the offset index of its parent, and so on up to `Root` for as long as rows keep changing
+	 */
+	private sync(item: FileOrDir) {
+		if (!this.indexed) {
+			return
+		}
+		for (let child = item; child && child !== this.root; child = child.parent) {
+			const parent = child.parent
+			if (!parent) {
+				return
+			}
+			const rows = this.rowsInView(child)
+			let offsets = this.indexes.get(parent)
+			const current = offsets ? offsets.rowsOf(child) : -1
+			if (rows === current) {
+				return
+			}
+			if (current === -1) {
+				if (!offsets) {
+					offsets = new BranchOffsetIndex([], null)
+					this.indexes.set(parent, offsets)
+				}
+				offsets.insert(this.insertionPoint(offsets, child), child, rows)
+			} else if (rows === -1) {
+				this.detach(child, parent)
+			} else {
+				offsets.update(child, rows - current)
+			}
+		}
+	}
+
+	/**
+	 * Removes the item from the offset index of given (possibly former) parent, without touching the ones above it
+	 */
+	private detach(item: FileOrDir, parent: Directory) {
+		const offsets = this.indexes.get(parent)
+		if (!offsets) {
+			return
+		}
+		offsets.remove(item)
+		if (offsets.size === 0 && parent !== this.root) {
+			this.indexes.delete(parent)
+		}
+	}
+
+	/**
+	 * Moves the item to where it belongs among its siblings in view, after something the comparator looks at (like its name) changed
+	 */
+	private reposition(item: FileOrDir) {
+		const offsets = this.indexed && item.parent && this.indexes.get(item.parent)
+		const position = offsets ? offsets.positionOf(item) : -1
+		if (position === -1) {
+			return
+		}
+		const comparator = this.root.sortComparator
+		const prev = offsets.itemAt(position - 1)
+		const next = offsets.itemAt(position + 1)
+		if ((!prev || comparator(prev, item) <= 0) && (!next || comparator(item, next) <= 0)) {
+			return
+		}
+		const rows = offsets.rowsOf(item)
+		offsets.remove(item)
+		offsets.insert(this.insertionPoint(offsets, item), item, rows)
+	}
+
+	/**
+	 * Position among siblings in view at which the item belongs, after any siblings the comparator considers equal
+	 */
+	private insertionPoint(offsets: BranchOffsetIndex<FileOrDir>, item: FileOrDir): number {
+		const comparator = this.root.sortComparator
+		let low = 0
+		let high = offsets.size
+		while (low < high) {
+			const mid = (low + high) >>> 1
+			if (comparator(offsets.itemAt(mid), item) <= 0) {
+				low = mid + 1
+			} else {
+				high = mid
+			}
+		}
+		return low
+	}
+
+	private didUpdate() {
+		this.events.dispatch(FilteredViewEvent.DidUpdate)
+	}
+
+	private collectMatches(directory: Directory) {
+		const children = directory.children
+		if (!children) {
+			return
+		}
+		for (let i = 0; i < children.length; i++) {
+			const child = children[i]
+			if (this.predicate(child)) {
+				this.matches.add(child)
+				this.propagate(child.parent, 1)
+			}
+			if (child.type === FileType.Directory) {
+				this.collectMatches(child as Directory)
+			}
+		}
+	}
+
+	/**
+	 * Adjusts matching descendant count of `from` and all of its parents (except `Root`)
+	 */
+	private propagate(from: Directory, delta: number) {
+		for (let dir = from; dir && dir !== this.root; dir = dir.parent) {
+			const count = (this.descendantMatches.get(dir) || 0) + delta
+			if (count > 0) {
+				this.descendantMatches.set(dir, count)
+			} else {
+				this.descendantMatches.delete(dir)
+			}
+		}
+	}
+
+	private handleAdd = (target: FileOrDir) => {
+		if (this.predicate(target)) {
+			this.matches.add(target)
+			this.propagate(target.parent, 1)
+			this.sync(target)
+			this.didUpdate()
+		}
+	}
+
+	private handleDispose = (target: FileOrDir) => {
+		// descendants are disposed before their parent, so by now `target` has no matching descendants left
+		this.descendantMatches.delete(target as Directory)
+		if (this.matches.delete(target)) {
+			this.propagate(target.parent, -1)
+			this.sync(target)
+			this.didUpdate()
+		}
+		if (this.indexes) {
+			this.indexes.delete(target as Directory)
+		}
+	}
+
+	private handleParentChange = (target: FileOrDir, prevParent: Directory, newParent: Directory) => {
+		const contribution = (this.matches.has(target) ? 1 : 0) + (this.descendantMatches.get(target as Directory) || 0)
+		if (contribution > 0) {
+			this.propagate(prevParent, -contribution)
+			this.propagate(newParent, contribution)
+			if (this.indexed) {
+				this.detach(target, prevParent)
+				this.sync(prevParent)
+				this.sync(target)
+			}
+			this.didUpdate()
+		}
+	}
+
+	private reevaluate = (target: FileOrDir) => {
+		if (target.disposed || target === this.root) {
+			return
+		}
+		const matched = this.matches.has(target)
+		const matches = !!this.predicate(target)
+		if (matched !== matches) {
+			if (matches) {
+				this.matches.add(target)
+			} else {
+				this.matches.delete(target)
+			}
+			this.propagate(target.parent, matches ? 1 : -1)
+			this.sync(target)
+			this.didUpdate()
+		} else if (this.isIncluded(target)) {
+			// renamed items may have changed position among their siblings
+			this.reposition(target)
+			this.didUpdate()
+		}
+	}
+}
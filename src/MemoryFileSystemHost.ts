@@ -0,0 +1,418 @@
+import { Disposable, IDisposable } from 'notificar'
+import { PathFx, unix, win32 } from 'path-fx'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir, FileType, IAbortSignal, IBasicFileSystemHost, IFileEntryItem, ItemsOrPages, IWatcherAddEvent, IWatcherEvent, WatchEvent } from './types'
+
+/**
+ * Contents as accepted by `MemoryFileSystemHost`: strings are files (with given contents), objects are directories
+ */
+export interface IMemoryTree {
+	[name: string]: string | IMemoryTree
+}
+
+export interface IMemoryFileSystemHostOptions {
+	/**
+	 * Defaults to `unix`
+	 */
+	pathStyle?: 'unix' | 'win32'
+	/**
+	 * Initial contents, mounted at `/` (for `win32`, top level names are drives, like `C:`)
+	 */
+	tree?: IMemoryTree
+	/**
+	 * Milliseconds `getItems` takes to respond (for each page when `pageSize` is set). Defaults to `0`
+	 */
+	latency?: number | ((path: string) => number)
+	/**
+	 * When set, `getItems` lists directories in pages of this size (see `IBasicFileSystemHost#getItems`)
+	 */
+	pageSize?: number
+}
+
+interface IMemoryNode {
+	type: FileType
+	metadata: { [key: string]: any }
+	content?: string
+	children?: Map<string, IMemoryNode>
+}
+
+/**
+ * Error shaped like the ones thrown by node's `fs` module
+ */
+interface IFsError extends Error {
+	code: string
+	syscall: string
+	path: string
+}
+
+interface IInjectedFailure {
+	error: Error
+	remaining: number
+}
+
+function fsError(code: string, description: string, syscall: string, path: string): IFsError {
+	return Object.assign(new Error(`${code}: ${description}, ${syscall} '${path}'`), { code, syscall, path })
+}
+
+/**
+ * `IBasicFileSystemHost` backed by an in-memory file system, meant for tests and demos
+ *
+ * Mutations (`mkdir`, `writeFile`, `rm`, `rename` and `setMetadata`) are dispatched to every `Root` attached using `MemoryFileSystemHost#attach`, as the
+ * corresponding `IWatcherEvent` (metadata changes are applied to loaded items directly, as there's no watch event for those).
+ *
+ * `latency` and `MemoryFileSystemHost#injectFailure` help simulating slow or failing listings
+ */
+export class MemoryFileSystemHost implements IBasicFileSystemHost {
+	public readonly pathStyle: 'unix' | 'win32'
+	public latency: number | ((path: string) => number)
+	public pageSize: number
+	private readonly pathfx: PathFx
+	private readonly top: IMemoryNode
+	private readonly roots: Set<Root>
+	private readonly watchers: Map<string, number>
+	private readonly failures: Map<string, IInjectedFailure>
+
+	constructor(options: IMemoryFileSystemHostOptions = {}) {
+		this.pathStyle = options.pathStyle === 'win32' ? 'win32' : 'unix'
+		this.pathfx = this.pathStyle === 'win32' ? win32 : unix
+		this.latency = options.latency || 0
+		this.pageSize = options.pageSize || 0
+		this.top = { type: FileType.Directory, metadata: {}, children: new Map() }
+		this.roots = new Set()
+		this.watchers = new Map()
+		this.failures = new Map()
+		if (options.tree) {
+			this.mount(this.top, options.tree)
+		}
+	}
+
+	/**
+	 * Paths `Root`s are currently watching (see `IBasicFileSystemHost#watch`)
+	 */
+	get watchedPaths(): string[] {
+		return Array.from(this.watchers.keys())
+	}
+
+	public async getItems(path: string, signal?: IAbortSignal): Promise<ItemsOrPages> {
+		path = this.normalize(path)
+		await this.delay(path, signal)
+		this.throwIfFailing(path)
+		const node = this.lookup(path)
+		if (!node) {
+			throw fsError('ENOENT', 'no such file or directory', 'scandir', path)
+		}
+		if (node.type !== FileType.Directory) {
+			throw fsError('ENOTDIR', 'not a directory', 'scandir', path)
+		}
+		const items: IFileEntryItem[] = []
+		for (const [name, child] of node.children) {
+			items.push({ name, type: child.type, metadata: { ...child.metadata } })
+		}
+		return this.pageSize > 0 ? this.paginate(path, items, signal) : items
+	}
+
+	public watch(path: string) {
+		path = this.normalize(path)
+		this.watchers.set(path, (this.watchers.get(path) || 0) + 1)
+		return this.unwatch
+	}
+
+	/**
+	 * Mutations will be dispatched to given `Root` (`Root#inotify`) until returned `IDisposable` is disposed (or `Root` is)
+	 */
+	public attach(root: Root): IDisposable {
+		this.roots.add(root)
+		return new Disposable(() => this.roots.delete(root))
+	}
+
+	public exists(path: string): boolean {
+		return !!this.lookup(this.normalize(path))
+	}
+
+	public readFile(path: string): string {
+		path = this.normalize(path)
+		const node = this.lookup(path)
+		if (!node) {
+			throw fsError('ENOENT', 'no such file or directory', 'open', path)
+		}
+		if (node.type !== FileType.File) {
+			throw fsError('EISDIR', 'illegal operation on a directory', 'read', path)
+		}
+		return node.content
+	}
+
+	public mkdir(path: string, metadata?: { [key: string]: any }) {
+		path = this.normalize(path)
+		const parent = this.parentOf(path, 'mkdir')
+		const name = this.pathfx.basename(path)
+		if (parent.children.has(name)) {
+			throw fsError('EEXIST', 'file already exists', 'mkdir', path)
+		}
+		const node: IMemoryNode = { type: FileType.Directory, metadata: { ...(metadata || {}) }, children: new Map() }
+		parent.children.set(name, node)
+		this.notifyAdded(path, node)
+	}
+
+	/**
+	 * Creates the file, or replaces the contents if it exists (which does not emit any watch event)
+	 */
+	public writeFile(path: string, content: string = '', metadata?: { [key: string]: any }) {
+		path = this.normalize(path)
+		const parent = this.parentOf(path, 'open')
+		const name = this.pathfx.basename(path)
+		const existing = parent.children.get(name)
+		if (existing) {
+			if (existing.type !== FileType.File) {
+				throw fsError('EISDIR', 'illegal operation on a directory', 'open', path)
+			}
+			existing.content = content
+			return
+		}
+		const node: IMemoryNode = { type: FileType.File, metadata: { ...(metadata || {}) }, content }
+		parent.children.set(name, node)
+		this.notifyAdded(path, node)
+	}
+
+	/**
+	 * Removes the file or directory (recursively)
+	 */
+	public rm(path: string) {
+		path = this.normalize(path)
+		const parent = this.parentOf(path, 'rm')
+		const name = this.pathfx.basename(path)
+		if (!parent.children.has(name)) {
+			throw fsError('ENOENT', 'no such file or directory', 'rm', path)
+		}
+		parent.children.delete(name)
+		this.dispatch({ type: WatchEvent.Removed, path })
+	}
+
+	/**
+	 * Moves (or renames) the file or directory, replacing a file (or an empty directory) at `newPath` if there's one
+	 */
+	public rename(oldPath: string, newPath: string) {
+		oldPath = this.normalize(oldPath)
+		newPath = this.normalize(newPath)
+		const { basename, isPathInside } = this.pathfx
+		const from = this.parentOf(oldPath, 'rename')
+		const node = from.children.get(basename(oldPath))
+		if (!node) {
+			throw fsError('ENOENT', 'no such file or directory', 'rename', oldPath)
+		}
+		if (oldPath === newPath) {
+			return
+		}
+		if (isPathInside(newPath, oldPath)) {
+			throw fsError('EINVAL', 'invalid argument', 'rename', oldPath)
+		}
+		const to = this.parentOf(newPath, 'rename')
+		const replaced = to.children.get(basename(newPath))
+		if (replaced) {
+			if (replaced.type === FileType.Directory && (node.type !== FileType.Directory || replaced.children.size > 0)) {
+				throw fsError(replaced.children.size > 0 ? 'ENOTEMPTY' : 'EISDIR', 'cannot replace directory', 'rename', newPath)
+			}
+			to.children.delete(basename(newPath))
+			this.dispatch({ type: WatchEvent.Removed, path: newPath })
+		}
+		from.children.delete(basename(oldPath))
+		to.children.set(basename(newPath), node)
+		const { dirname } = this.pathfx
+		for (const root of this.attachedRoots()) {
+			// a `Root` that never loaded the source would miss the item entirely
+			if (this.isLoadedIn(root, dirname(oldPath))) {
+				root.inotify({ type: WatchEvent.Moved, oldPath, newPath })
+			} else if (this.isLoadedIn(root, dirname(newPath))) {
+				root.inotify(this.toAddEvent(newPath, node))
+			}
+		}
+	}
+
+	/**
+	 * Merges given metadata into the file or directory (keys set to `undefined` are removed)
+	 *
+	 * Changes are applied to the item in every attached `Root` that has it loaded
+	 */
+	public setMetadata(path: string, metadata: { [key: string]: any }) {
+		path = this.normalize(path)
+		const node = this.lookup(path)
+		if (!node) {
+			throw fsError('ENOENT', 'no such file or directory', 'setMetadata', path)
+		}
+		const keys = Object.keys(metadata)
+		for (const key of keys) {
+			if (metadata[key] === undefined) {
+				delete node.metadata[key]
+			} else {
+				node.metadata[key] = metadata[key]
+			}
+		}
+		for (const root of this.attachedRoots()) {
+			const item = this.findLoaded(root, path)
+			if (!item) {
+				continue
+			}
+			for (const key of keys) {
+				if (metadata[key] === undefined) {
+					item.removeMetadata(key)
+				} else {
+					item.addMetadata(key, metadata[key])
+				}
+			}
+		}
+	}
+
+	/**
+	 * Makes `getItems` reject with given error for the path (for the next `times` calls, or until `MemoryFileSystemHost#clearFailures`)
+	 */
+	public injectFailure(path: string, error: Error = fsError('EACCES', 'permission denied', 'scandir', this.normalize(path)), times = Infinity) {
+		this.failures.set(this.normalize(path), { error, remaining: times })
+	}
+
+	public clearFailures() {
+		this.failures.clear()
+	}
+
+	private unwatch = (path: string) => {
+		path = this.normalize(path)
+		const count = (this.watchers.get(path) || 0) - 1
+		if (count > 0) {
+			this.watchers.set(path, count)
+		} else {
+			this.watchers.delete(path)
+		}
+	}
+
+	private mount(directory: IMemoryNode, tree: IMemoryTree) {
+		for (const name of Object.keys(tree)) {
+			const value = tree[name]
+			if (typeof value === 'string') {
+				directory.children.set(name, { type: FileType.File, metadata: {}, content: value })
+			} else {
+				const child: IMemoryNode = { type: FileType.Directory, metadata: {}, children: new Map() }
+				directory.children.set(name, child)
+				this.mount(child, value)
+			}
+		}
+	}
+
+	private normalize(path: string) {
+		if (typeof path !== 'string' || this.pathfx.isRelative(path)) {
+			throw new TypeError(`Path must be absolute`)
+		}
+		const normalized = this.pathfx.removeTrailingSlashes(this.pathfx.normalize(path))
+		return normalized.length > 0 ? normalized : path
+	}
+
+	private lookup(path: string): IMemoryNode {
+		let node = this.top
+		for (const name of this.pathfx.splitPath(path)) {
+			node = node.type === FileType.Directory ? node.children.get(name) : null
+			if (!node) {
+				return null
+			}
+		}
+		return node
+	}
+
+	private parentOf(path: string, syscall: string): IMemoryNode {
+		const { dirname, splitPath } = this.pathfx
+		if (splitPath(path).length === 0) {
+			throw fsError('EPERM', 'operation not permitted', syscall, path)
+		}
+		const parent = splitPath(path).length === 1 ? this.top : this.lookup(dirname(path))
+		if (!parent) {
+			throw fsError('ENOENT', 'no such file or directory', syscall, path)
+		}
+		if (parent.type !== FileType.Directory) {
+			throw fsError('ENOTDIR', 'not a directory', syscall, path)
+		}
+		return parent
+	}
+
+	private throwIfFailing(path: string) {
+		const failure = this.failures.get(path)
+		if (!failure) {
+			return
+		}
+		if (--failure.remaining <= 0) {
+			this.failures.delete(path)
+		}
+		throw failure.error
+	}
+
+	private delay(path: string, signal: IAbortSignal): Promise<void> {
+		const ms = typeof this.latency === 'function' ? this.latency(path) : this.latency
+		return new Promise((resolve, reject) => {
+			if (signal && signal.aborted) {
+				return reject(fsError('ABORT_ERR', 'the operation was aborted', 'scandir', path))
+			}
+			if (!(ms > 0)) {
+				return resolve()
+			}
+			const timer = setTimeout(resolve, ms)
+			if (signal) {
+				signal.addEventListener('abort', () => {
+					clearTimeout(timer)
+					reject(fsError('ABORT_ERR', 'the operation was aborted', 'scandir', path))
+				})
+			}
+		})
+	}
+
+	private async *paginate(path: string, items: IFileEntryItem[], signal: IAbortSignal): AsyncIterableIterator<IFileEntryItem[]> {
+		for (let i = 0; i < items.length; i += this.pageSize) {
+			if (i > 0) {
+				await this.delay(path, signal)
+			}
+			yield items.slice(i, i + this.pageSize)
+		}
+	}
+
+	private notifyAdded(path: string, node: IMemoryNode) {
+		this.dispatch(this.toAddEvent(path, node))
+	}
+
+	private toAddEvent(path: string, node: IMemoryNode): IWatcherAddEvent {
+		const { dirname, basename } = this.pathfx
+		return {
+			type: WatchEvent.Added,
+			directory: dirname(path),
+			file: { name: basename(path), type: node.type, metadata: { ...node.metadata } },
+		}
+	}
+
+	/**
+	 * Item at given path if it's loaded in the `Root` (`null` otherwise)
+	 */
+	private findLoaded(root: Root, path: string): FileOrDir {
+		if (!this.pathfx.isPathInside(path, root.path)) {
+			return null
+		}
+		try {
+			return root.findFileEntryInLoadedTree(path)
+		} catch (error) {
+			return null
+		}
+	}
+
+	private isLoadedIn(root: Root, directory: string): boolean {
+		const item = this.findLoaded(root, directory)
+		return !!item && item.type === FileType.Directory && !!(item as Directory).children
+	}
+
+	private attachedRoots(): Root[] {
+		for (const root of Array.from(this.roots)) {
+			if (root.disposed) {
+				this.roots.delete(root)
+			}
+		}
+		return Array.from(this.roots)
+	}
+
+	private dispatch(event: IWatcherEvent) {
+		for (const root of this.attachedRoots()) {
+			root.inotify(event)
+		}
+	}
+}
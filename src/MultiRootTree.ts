@@ -0,0 +1,335 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir, ICompactRow, IMetadataChange, IWatcherEvent } from './types'
+
+enum MultiRootTreeEvent {
+	DidChangeDirExpansionState = 1,
+	WillChangeDirExpansionState,
+	WillProcessWatchEvent,
+	DidProcessWatchEvent,
+	DidUpdate,
+	WillDispose,
+	DidDispose,
+	DidChangeParent,
+	WillChangeParent,
+	DidChangePath,
+	DidChangeMetadata,
+	DidAddItem,
+	DidChangePartialLoadState,
+	WillLoadDirectory,
+	DidLoadDirectory,
+	DidFailLoadDirectory,
+	DidAbortLoadDirectory,
+}
+
+/**
+ * Several `Root`s (like folders of a workspace, each with its own host and path) combined into one flattened structure
+ *
+ * Every root is preceded by a header row, for which `MultiRootTree#getFileEntryAtIndex` returns the `Root` itself. Header rows can be expanded or
+ * collapsed (roots start expanded), contents of a collapsed root are left out of the flattened structure.
+ *
+ * Events of every root are forwarded with the originating `Root` as first argument. `MultiRootTree#onDidUpdate` is also notified when roots are
+ * added, removed, reordered or their header is expanded or collapsed. Roots that get disposed are removed automatically.
+ *
+ * Roots are not owned by the container, `MultiRootTree#removeRoot` and `MultiRootTree#dispose` leave them intact.
+ */
+export class MultiRootTree {
+	private events: Notificar<MultiRootTreeEvent>
+	private _roots: Root[]
+	private collapsedRoots: Set<Root>
+	private subscriptions: Map<Root, DisposablesComposite>
+	private _disposed: boolean
+
+	constructor(roots: Root[] = []) {
+		this.events = new Notificar()
+		this._roots = []
+		this.collapsedRoots = new Set()
+		this.subscriptions = new Map()
+		this._disposed = false
+		for (let i = 0; i < roots.length; i++) {
+			this.addRoot(roots[i])
+		}
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Roots in order they appear in
+	 */
+	get roots(): Root[] {
+		return this._roots.slice()
+	}
+
+	/**
+	 * Number of rows, header rows included
+	 */
+	get branchSize() {
+		let size = 0
+		for (let i = 0; i < this._roots.length; i++) {
+			size += this.rowsOf(this._roots[i])
+		}
+		return size
+	}
+
+	/**
+	 * Adds the root at `index` (defaults to the end)
+	 */
+	public addRoot(root: Root, index: number = this._roots.length) {
+		this.assertNotDisposed()
+		if (!(root instanceof Root) || root.disposed) {
+			throw new TypeError(`Expected a Root that is not disposed`)
+		}
+		if (this.subscriptions.has(root)) {
+			throw new Error(`Root '${root.path}' is already in this tree`)
+		}
+		this.subscriptions.set(root, this.forwardEvents(root))
+		this._roots.splice(this.clampIndex(index, this._roots.length), 0, root)
+		this.notifyDidUpdate(root)
+	}
+
+	/**
+	 * Takes the root out (without disposing it)
+	 */
+	public removeRoot(root: Root) {
+		const idx = this._roots.indexOf(root)
+		if (idx === -1) {
+			return
+		}
+		this._roots.splice(idx, 1)
+		this.collapsedRoots.delete(root)
+		this.subscriptions.get(root).dispose()
+		this.subscriptions.delete(root)
+		this.notifyDidUpdate(root)
+	}
+
+	/**
+	 * Moves the root to `index` (position among roots)
+	 */
+	public moveRoot(root: Root, index: number) {
+		this.assertNotDisposed()
+		const idx = this._roots.indexOf(root)
+		if (idx === -1) {
+			throw new Error(`Root is not in this tree`)
+		}
+		index = this.clampIndex(index, this._roots.length - 1)
+		if (idx === index) {
+			return
+		}
+		this._roots.splice(idx, 1)
+		this._roots.splice(index, 0, root)
+		this.notifyDidUpdate(root)
+	}
+
+	public isRootExpanded(root: Root): boolean {
+		return this.subscriptions.has(root) && !this.collapsedRoots.has(root)
+	}
+
+	/**
+	 * Expands header row of the root (loads the root first, if needed)
+	 */
+	public async expandRoot(root: Root) {
+		this.assertNotDisposed()
+		this.assertContains(root)
+		if (!this.collapsedRoots.has(root)) {
+			return
+		}
+		this.collapsedRoots.delete(root)
+		this.notifyDidUpdate(root)
+		await root.ensureLoaded()
+	}
+
+	public collapseRoot(root: Root) {
+		this.assertNotDisposed()
+		this.assertContains(root)
+		if (this.collapsedRoots.has(root)) {
+			return
+		}
+		this.collapsedRoots.add(root)
+		this.notifyDidUpdate(root)
+	}
+
+	/**
+	 * Lookup combined flattened structure by index, header rows resolve to their `Root`
+	 *
+	 * Runs in `O(roots + depth * log(siblings))`
+	 */
+	public getFileEntryAtIndex(index: number): FileOrDir | ICompactRow {
+		if (!Number.isInteger(index) || index < 0) {
+			return undefined
+		}
+		for (let i = 0; i < this._roots.length; i++) {
+			const root = this._roots[i]
+			const rows = this.rowsOf(root)
+			if (index < rows) {
+				return index === 0 ? root : root.getFileEntryAtIndex(index - 1)
+			}
+			index -= rows
+		}
+		return undefined
+	}
+
+	/**
+	 * Reverse of `MultiRootTree#getFileEntryAtIndex`, `-1` if item isn't visible (or its root isn't in this tree)
+	 */
+	public getIndexAtFileEntry(item: FileOrDir | ICompactRow): number {
+		if (Root.isCompactRow(item)) {
+			item = item.item
+		}
+		if (!item || item.disposed) {
+			return -1
+		}
+		let offset = 0
+		for (let i = 0; i < this._roots.length; i++) {
+			const root = this._roots[i]
+			if (root === item.root) {
+				if (item === root) {
+					return offset
+				}
+				const index = this.collapsedRoots.has(root) ? -1 : root.getIndexAtFileEntry(item)
+				return index === -1 ? -1 : offset + 1 + index
+			}
+			offset += this.rowsOf(root)
+		}
+		return -1
+	}
+
+	public onDidChangeDirExpansionState(cb: (root: Root, directory: Directory, nowExpanded: boolean, visibleAtSurface: boolean) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidChangeDirExpansionState, cb)
+	}
+
+	public onWillChangeDirExpansionState(cb: (root: Root, directory: Directory, nowExpanded: boolean) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.WillChangeDirExpansionState, cb)
+	}
+
+	public onWillProcessWatchEvent(cb: (root: Root, directory: Directory, event: IWatcherEvent) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.WillProcessWatchEvent, cb)
+	}
+
+	public onDidProcessWatchEvent(cb: (root: Root, directory: Directory, event: IWatcherEvent) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidProcessWatchEvent, cb)
+	}
+
+	/**
+	 * Notified whenever the combined flattened structure changes, along with the root it changed for
+	 */
+	public onDidUpdate(cb: (root: Root) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidUpdate, cb)
+	}
+
+	public onWillDispose(cb: (root: Root, target: FileOrDir) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.WillDispose, cb)
+	}
+
+	public onDidDispose(cb: (root: Root, target: FileOrDir) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidDispose, cb)
+	}
+
+	public onDidChangeParent(cb: (root: Root, target: FileOrDir, prevParent: Directory, newParent: Directory) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidChangeParent, cb)
+	}
+
+	public onWillChangeParent(cb: (root: Root, target: FileOrDir, prevParent: Directory, newParent: Directory) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.WillChangeParent, cb)
+	}
+
+	public onDidChangePath(cb: (root: Root, target: FileOrDir, prevPath: string) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidChangePath, cb)
+	}
+
+	public onDidChangeMetadata(cb: (root: Root, target: FileOrDir, change: IMetadataChange) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidChangeMetadata, cb)
+	}
+
+	public onDidAddItem(cb: (root: Root, target: FileOrDir) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidAddItem, cb)
+	}
+
+	public onDidChangePartialLoadState(cb: (root: Root, directory: Directory, partiallyLoaded: boolean) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidChangePartialLoadState, cb)
+	}
+
+	public onWillLoadDirectory(cb: (root: Root, directory: Directory) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.WillLoadDirectory, cb)
+	}
+
+	public onDidLoadDirectory(cb: (root: Root, directory: Directory) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidLoadDirectory, cb)
+	}
+
+	public onDidFailLoadDirectory(cb: (root: Root, directory: Directory, error: any) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidFailLoadDirectory, cb)
+	}
+
+	public onDidAbortLoadDirectory(cb: (root: Root, directory: Directory) => void): IDisposable {
+		return this.events.add(MultiRootTreeEvent.DidAbortLoadDirectory, cb)
+	}
+
+	/**
+	 * Stops forwarding events and lets go of every root (roots themselves are not disposed)
+	 */
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		for (const subscriptions of this.subscriptions.values()) {
+			subscriptions.dispose()
+		}
+		this.subscriptions.clear()
+		this.collapsedRoots.clear()
+		this._roots = []
+		this.events.clear()
+	}
+
+	/**
+	 * Subscribes to every event of the root, re-dispatching it with the root as first argument
+	 */
+	private forwardEvents(root: Root): DisposablesComposite {
+		const subscriptions = new DisposablesComposite()
+		subscriptions.add(root.onDidChangeDirExpansionState((directory, nowExpanded, visibleAtSurface) => this.events.dispatch(MultiRootTreeEvent.DidChangeDirExpansionState, root, directory, nowExpanded, visibleAtSurface)))
+		subscriptions.add(root.onWillChangeDirExpansionState((directory, nowExpanded) => this.events.dispatch(MultiRootTreeEvent.WillChangeDirExpansionState, root, directory, nowExpanded)))
+		subscriptions.add(root.onWillProcessWatchEvent((directory, event) => this.events.dispatch(MultiRootTreeEvent.WillProcessWatchEvent, root, directory, event)))
+		subscriptions.add(root.onDidProcessWatchEvent((directory, event) => this.events.dispatch(MultiRootTreeEvent.DidProcessWatchEvent, root, directory, event)))
+		subscriptions.add(root.onDidUpdate(() => this.events.dispatch(MultiRootTreeEvent.DidUpdate, root)))
+		subscriptions.add(root.onWillDispose((target) => this.events.dispatch(MultiRootTreeEvent.WillDispose, root, target)))
+		subscriptions.add(root.onDidDispose((target) => this.events.dispatch(MultiRootTreeEvent.DidDispose, root, target)))
+		subscriptions.add(root.onDidChangeParent((target, prevParent, newParent) => this.events.dispatch(MultiRootTreeEvent.DidChangeParent, root, target, prevParent, newParent)))
+		subscriptions.add(root.onWillChangeParent((target, prevParent, newParent) => this.events.dispatch(MultiRootTreeEvent.WillChangeParent, root, target, prevParent, newParent)))
+		subscriptions.add(root.onDidChangePath((target, prevPath) => this.events.dispatch(MultiRootTreeEvent.DidChangePath, root, target, prevPath)))
+		subscriptions.add(root.onDidChangeMetadata((target, change) => this.events.dispatch(MultiRootTreeEvent.DidChangeMetadata, root, target, change)))
+		subscriptions.add(root.onDidAddItem((target) => this.events.dispatch(MultiRootTreeEvent.DidAddItem, root, target)))
+		subscriptions.add(root.onDidChangePartialLoadState((directory, partiallyLoaded) => this.events.dispatch(MultiRootTreeEvent.DidChangePartialLoadState, root, directory, partiallyLoaded)))
+		subscriptions.add(root.onWillLoadDirectory((directory) => this.events.dispatch(MultiRootTreeEvent.WillLoadDirectory, root, directory)))
+		subscriptions.add(root.onDidLoadDirectory((directory) => this.events.dispatch(MultiRootTreeEvent.DidLoadDirectory, root, directory)))
+		subscriptions.add(root.onDidFailLoadDirectory((directory, error) => this.events.dispatch(MultiRootTreeEvent.DidFailLoadDirectory, root, directory, error)))
+		subscriptions.add(root.onDidAbortLoadDirectory((directory) => this.events.dispatch(MultiRootTreeEvent.DidAbortLoadDirectory, root, directory)))
+		subscriptions.add(root.onDidDispose((target) => target === root && this.removeRoot(root)))
+		return subscriptions
+	}
+
+	/**
+	 * Header row, plus contents of the root when expanded
+	 */
+	private rowsOf(root: Root): number {
+		return 1 + (this.collapsedRoots.has(root) ? 0 : root.branchSize)
+	}
+
+	private clampIndex(index: number, max: number): number {
+		return Number.isInteger(index) ? Math.max(0, Math.min(index, max)) : max
+	}
+
+	private notifyDidUpdate(root: Root) {
+		this.events.dispatch(MultiRootTreeEvent.DidUpdate, root)
+	}
+
+	private assertContains(root: Root) {
+		if (!this.subscriptions.has(root)) {
+			throw new Error(`Root is not in this tree`)
+		}
+	}
+
+	private assertNotDisposed() {
+		if (this._disposed) {
+			throw new Error(`MultiRootTree is disposed`)
+		}
+	}
+}
@@ -0,0 +1,438 @@
+import * as fs from 'fs'
+import { Disposable, IDisposable } from 'notificar'
+import { PathFx, unix, win32 } from 'path-fx'
+import { Root } from './Root'
+import { FileType, IAbortSignal, IBasicFileSystemHost, IFileEntryItem, IWatcherEvent, WatchEvent } from './types'
+
+export interface INodeFileSystemHostOptions {
+	/**
+	 * `fs.stat` every entry to fill `size`, `mtime` and `ctime` (milliseconds) metadata, along with `IFileEntryItem#key` (device and inode numbers) which
+	 * also makes rename detection exact. Defaults to `false`
+	 */
+	stat?: boolean
+	/**
+	 * Entries for which this returns `false` are left out (like `.git` or `node_modules`)
+	 */
+	filter?: (name: string, directory: string) => boolean
+	/**
+	 * Milliseconds to wait for more `fs.watch` notifications before turning them into watch events. Defaults to `50`
+	 */
+	watchDelay?: number
+	/**
+	 * Called with errors thrown while turning `fs.watch` notifications into watch events (including ones thrown by `Root#inotifyMany`). Defaults to
+	 * `process.emitWarning`
+	 */
+	onError?: (error: Error) => void
+}
+
+/**
+ * Listings of directories that aren't watched are kept for this many directories at most (most recent ones)
+ */
+const MAX_UNWATCHED_LISTINGS = 64
+
+interface IKnownEntry {
+	type: FileType
+	key: string
+}
+
+interface IDirectoryWatch {
+	/**
+	 * `null` if directory couldn't be watched or got removed
+	 */
+	watcher: fs.FSWatcher
+	/**
+	 * Number of `watch` calls for the path not terminated yet, every `Root` attached to the host watches on its own
+	 */
+	refs: number
+	/**
+	 * Entries as of last listing (`null` if directory wasn't listed before watching started)
+	 */
+	entries: Map<string, IKnownEntry>
+	/**
+	 * Names `fs.watch` reported since last flush
+	 */
+	pending: Set<string>
+	/**
+	 * `fs.watch` reported a change without telling which entry, directory has to be listed again
+	 */
+	rescan: boolean
+}
+
+interface IEntryChange {
+	directory: string
+	name: string
+	item: IFileEntryItem
+	entry: IKnownEntry
+}
+
+/**
+ * `IBasicFileSystemHost` for node (and electron), backed by the `fs` module
+ *
+ * Directories are listed using `fs.promises.readdir` and watched using `fs.watch`. Raw notifications are compared with what was listed before and
+ * dispatched to every `Root` attached using `NodeFileSystemHost#attach` as `WatchEvent.Added`, `WatchEvent.Removed` or `WatchEvent.Moved` events
+ * (renames are paired by `key` when `stat` is enabled, otherwise only when a single entry of a directory disappears and another one of the same type
+ * appears). When a notification can't be resolved, the directory gets a `WatchEvent.Changed` instead.
+ *
+ * Not exported from the package index as it depends on `fs`, import it from `aspen-core/dist/NodeFileSystemHost` (typed through `typesVersions`)
+ */
+export class NodeFileSystemHost implements IBasicFileSystemHost {
+	public readonly pathStyle: 'unix' | 'win32'
+	private readonly pathfx: PathFx
+	private readonly options: INodeFileSystemHostOptions
+	private readonly roots: Set<Root>
+	private readonly watches: Map<string, IDirectoryWatch>
+	/**
+	 * Latest listings of directories that aren't watched (yet), watching usually begins right after a listing. Least recently listed ones are
+	 * dropped past `MAX_UNWATCHED_LISTINGS`, as directories that get listed but never watched (i.e. prefetched) would otherwise pile up
+	 */
+	private readonly listings: Map<string, Map<string, IKnownEntry>>
+	private flushTimeout: ReturnType<typeof setTimeout> | null
+	/**
+	 * Flush in progress (if any), next one waits for it so that both don't work off the same `IDirectoryWatch#entries`
+	 */
+	private flushing: Promise<void>
+
+	constructor(options: INodeFileSystemHostOptions = {}) {
+		this.pathStyle = process.platform === 'win32' ? 'win32' : 'unix'
+		this.pathfx = this.pathStyle === 'win32' ? win32 : unix
+		this.options = { stat: false, watchDelay: 50, ...options }
+		this.roots = new Set()
+		this.watches = new Map()
+		this.listings = new Map()
+		this.flushTimeout = null
+		this.flushing = Promise.resolve()
+	}
+
+	public async getItems(path: string, signal?: IAbortSignal): Promise<IFileEntryItem[]> {
+		const { filter } = this.options
+		const dirents = await fs.promises.readdir(path, { withFileTypes: true })
+		// results are ignored anyway, spare the `stat`s
+		if (signal && signal.aborted) {
+			return []
+		}
+		const items = await Promise.all(dirents
+			.filter((dirent) => !filter || filter(dirent.name, path))
+			.map((dirent) => signal && signal.aborted ? null : this.toItem(path, dirent.name, dirent)))
+		if (signal && signal.aborted) {
+			return []
+		}
+		const listed = items.filter((item) => item !== null)
+		const entries: Map<string, IKnownEntry> = new Map()
+		for (let i = 0; i < listed.length; i++) {
+			const { name, type, key } = listed[i]
+			entries.set(name, { type, key: key || null })
+		}
+		const watch = this.watches.get(this.pathfx.normalize(path))
+		if (watch) {
+			watch.entries = entries
+		} else {
+			this.rememberListing(this.pathfx.normalize(path), entries)
+		}
+		return listed
+	}
+
+	public watch(path: string) {
+		path = this.pathfx.normalize(path)
+		let watch = this.watches.get(path)
+		if (!watch) {
+			watch = {
+				watcher: null,
+				refs: 0,
+				entries: this.listings.get(path) || null,
+				pending: new Set(),
+				rescan: false,
+			}
+			this.listings.delete(path)
+			this.watches.set(path, watch)
+		}
+		watch.refs++
+		if (!watch.watcher) {
+			this.startWatcher(path, watch)
+		}
+		return this.unwatch
+	}
+
+	/**
+	 * Watch events will be dispatched to given `Root` (`Root#inotify`) until returned `IDisposable` is disposed (or `Root` is)
+	 */
+	public attach(root: Root): IDisposable {
+		this.roots.add(root)
+		return new Disposable(() => this.roots.delete(root))
+	}
+
+	/**
+	 * Closes every watcher
+	 */
+	public dispose() {
+		clearTimeout(this.flushTimeout)
+		this.flushTimeout = null
+		for (const path of Array.from(this.watches.keys())) {
+			this.stopWatcher(path)
+		}
+		this.watches.clear()
+		this.listings.clear()
+		this.roots.clear()
+	}
+
+	private unwatch = (path: string) => {
+		path = this.pathfx.normalize(path)
+		const watch = this.watches.get(path)
+		if (!watch) {
+			return
+		}
+		watch.refs--
+		if (watch.refs <= 0) {
+			this.stopWatcher(path)
+			this.watches.delete(path)
+		}
+	}
+
+	private startWatcher(path: string, watch: IDirectoryWatch) {
+		try {
+			watch.watcher = fs.watch(path, (eventType, fileName) => {
+				if (typeof fileName === 'string' && fileName.length > 0) {
+					watch.pending.add(fileName)
+				} else {
+					watch.rescan = true
+				}
+				this.scheduleFlush()
+			})
+			// i.e. directory itself got removed, parent's watcher will report that
+			watch.watcher.on('error', () => this.stopWatcher(path))
+		} catch (error) {
+			// directory is gone already or can't be watched, nothing to do
+			watch.watcher = null
+		}
+	}
+
+	/**
+	 * Closes the `fs.watch` of the path but keeps the record (and its `refs`), so that it can be started again if the directory comes back
+	 */
+	private stopWatcher(path: string) {
+		const watch = this.watches.get(path)
+		if (!watch) {
+			return
+		}
+		if (watch.watcher) {
+			watch.watcher.close()
+			watch.watcher = null
+		}
+		watch.entries = null
+		watch.pending.clear()
+		watch.rescan = false
+	}
+
+	/**
+	 * Describes the entry, `null` if it does not exist (anymore)
+	 */
+	private async toItem(directory: string, name: string, dirent?: fs.Dirent): Promise<IFileEntryItem> {
+		const path = this.pathfx.join(directory, name)
+		if (dirent && !this.options.stat && !dirent.isSymbolicLink()) {
+			return { name, type: dirent.isDirectory() ? FileType.Directory : FileType.File }
+		}
+		let stat: fs.Stats
+		try {
+			stat = await fs.promises.stat(path)
+		} catch (error) {
+			if (error.code !== 'ENOENT') {
+				throw error
+			}
+			try {
+				// broken symlinks are listed as files
+				await fs.promises.lstat(path)
+				return { name, type: FileType.File }
+			} catch (e) {
+				return null
+			}
+		}
+		const type = stat.isDirectory() ? FileType.Directory : FileType.File
+		if (!this.options.stat) {
+			return { name, type }
+		}
+		return {
+			name,
+			type,
+			key: `${stat.dev}:${stat.ino}`,
+			metadata: { size: stat.size, mtime: stat.mtimeMs, ctime: stat.ctimeMs },
+		}
+	}
+
+	private scheduleFlush() {
+		if (this.flushTimeout === null) {
+			this.flushTimeout = setTimeout(() => {
+				this.flushTimeout = null
+				this.flushing = this.flushing.then(this.flush).catch(this.reportError)
+			}, this.options.watchDelay)
+		}
+	}
+
+	private rememberListing(path: string, entries: Map<string, IKnownEntry>) {
+		// re-inserted, so that the map stays in order of listing
+		this.listings.delete(path)
+		this.listings.set(path, entries)
+		if (this.listings.size > MAX_UNWATCHED_LISTINGS) {
+			this.listings.delete(this.listings.keys().next().value)
+		}
+	}
+
+	private reportError = (error: Error) => {
+		if (typeof this.options.onError === 'function') {
+			this.options.onError(error)
+		} else {
+			process.emitWarning(error)
+		}
+	}
+
+	private flush = async () => {
+		const { filter } = this.options
+		const events: IWatcherEvent[] = []
+		const gone: IEntryChange[] = []
+		const appeared: IEntryChange[] = []
+		const updated: IEntryChange[] = []
+		for (const [directory, watch] of Array.from(this.watches)) {
+			if (watch.pending.size === 0 && !watch.rescan) {
+				continue
+			}
+			const names = Array.from(watch.pending)
+			watch.pending.clear()
+			if (watch.rescan || !watch.entries) {
+				watch.rescan = false
+				events.push({ type: WatchEvent.Changed, directory })
+				continue
+			}
+			for (const name of names) {
+				const known = watch.entries.get(name)
+				let item: IFileEntryItem = null
+				if (!filter || filter(name, directory)) {
+					try {
+						item = await this.toItem(directory, name)
+					} catch (error) {
+						item = null
+					}
+				}
+				const entry = item ? { type: item.type, key: item.key || null } : null
+				if (known && (!item || known.type !== item.type)) {
+					gone.push({ directory, name, item: null, entry: known })
+				}
+				if (item && (!known || known.type !== item.type)) {
+					appeared.push({ directory, name, item, entry })
+				}
+				// changed in place, `stat` tells what's new
+				if (item && known && known.type === item.type && item.metadata) {
+					updated.push({ directory, name, item, entry })
+				}
+			}
+		}
+		const moves = this.pairMoves(gone, appeared)
+		for (let i = 0; i < gone.length; i++) {
+			const { directory, name } = gone[i]
+			this.forget(directory, name)
+			if (!moves.has(gone[i])) {
+				events.push({ type: WatchEvent.Removed, path: this.pathfx.join(directory, name) })
+			}
+		}
+		for (let i = 0; i < appeared.length; i++) {
+			const { directory, name, item, entry } = appeared[i]
+			this.remember(directory, name, entry)
+			const movedFrom = moves.get(appeared[i])
+			if (movedFrom) {
+				events.push({
+					type: WatchEvent.Moved,
+					oldPath: this.pathfx.join(movedFrom.directory, movedFrom.name),
+					newPath: this.pathfx.join(directory, name),
+				})
+			} else {
+				events.push({ type: WatchEvent.Added, directory, file: item })
+			}
+		}
+		for (let i = 0; i < updated.length; i++) {
+			const { directory, name, entry } = updated[i]
+			this.remember(directory, name, entry)
+		}
+		if (events.length === 0 && updated.length === 0) {
+			return
+		}
+		for (const root of Array.from(this.roots)) {
+			if (root.disposed) {
+				this.roots.delete(root)
+				continue
+			}
+			// one failing `Root` should not keep the others from getting the events
+			try {
+				if (events.length > 0) {
+					root.inotifyMany(events)
+				}
+				this.updateMetadata(root, updated)
+			} catch (error) {
+				this.reportError(error)
+			}
+		}
+	}
+
+	/**
+	 * Applies metadata of entries that changed in place to the items `root` has loaded for them (there's no watch event for metadata)
+	 */
+	private updateMetadata(root: Root, updated: IEntryChange[]) {
+		for (let i = 0; i < updated.length; i++) {
+			const { directory, name, item } = updated[i]
+			const path = this.pathfx.join(directory, name)
+			const target = this.pathfx.isPathInside(path, root.path) ? root.findFileEntryInLoadedTree(path) : null
+			if (!target) {
+				continue
+			}
+			for (const key of Object.keys(item.metadata)) {
+				if (target.getMetadata(key) !== item.metadata[key]) {
+					target.addMetadata(key, item.metadata[key])
+				}
+			}
+		}
+	}
+
+	/**
+	 * Pairs disappeared entries with the ones that appeared, by `key` if known, otherwise by being the only change of same type in a directory
+	 *
+	 * Resulting map goes both ways (gone -> appeared, appeared -> gone)
+	 */
+	private pairMoves(gone: IEntryChange[], appeared: IEntryChange[]): Map<IEntryChange, IEntryChange> {
+		const pairs: Map<IEntryChange, IEntryChange> = new Map()
+		const byKey: Map<string, IEntryChange> = new Map()
+		for (let i = 0; i < gone.length; i++) {
+			if (gone[i].entry.key) {
+				byKey.set(gone[i].entry.key, gone[i])
+			}
+		}
+		for (let i = 0; i < appeared.length; i++) {
+			const match = appeared[i].entry.key && byKey.get(appeared[i].entry.key)
+			if (match && match.entry.type === appeared[i].entry.type && !pairs.has(match)) {
+				pairs.set(match, appeared[i])
+				pairs.set(appeared[i], match)
+			}
+		}
+		const inDirectory = (changes: IEntryChange[], directory: string) => changes.filter((change) => change.directory === directory && !pairs.has(change))
+		for (const directory of new Set(appeared.map((change) => change.directory))) {
+			const from = inDirectory(gone, directory)
+			const to = inDirectory(appeared, directory)
+			if (from.length === 1 && to.length === 1 && from[0].entry.type === to[0].entry.type) {
+				pairs.set(from[0], to[0])
+				pairs.set(to[0], from[0])
+			}
+		}
+		return pairs
+	}
+
+	private remember(directory: string, name: string, entry: IKnownEntry) {
+		const watch = this.watches.get(directory)
+		if (watch && watch.entries) {
+			watch.entries.set(name, entry)
+		}
+	}
+
+	private forget(directory: string, name: string) {
+		const watch = this.watches.get(directory)
+		if (watch && watch.entries) {
+			watch.entries.delete(name)
+		}
+		// watcher of a removed directory is of no use anymore
+		this.stopWatcher(this.pathfx.join(directory, name))
+	}
+}
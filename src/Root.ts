@@ -2,25 +2,72 @@ import { Disposable, DisposablesComposite, IDisposable, Notificar } from 'notifi
 import pSeries = require('p-series')
 import { PathFx, unix, win32 } from 'path-fx'
 import { Directory } from './Directory'
+import { PathChangedError, PathNotFoundError } from './errors'
 import { FileEntry } from './FileEntry'
-import { FileOrDir, FileTreeEvent, FileType, IBasicFileSystemHost, IMetadataChange, ITreeSupervisor, IWatcherEvent, TopDownIteratorCallback, WatcherCallback, WatchEvent, WatchTerminator } from './types'
+import { FilteredView, FilterPredicate } from './FilteredView'
+import { FileOrDir, FileTreeEvent, FileType, IBasicFileSystemHost, ICompactRow, IExpandAllOptions, IMetadataChange, IRefreshOptions, ISerializedTree, ITreeSupervisor, IWatcherEvent, SortComparator, TopDownIteratorCallback, WatcherCallback, WatchEvent, WatchTerminator } from './types'
+
+/**
+ * Lookups `Root#revealPath` makes before giving up on a path that keeps changing
+ */
+const REVEAL_ATTEMPTS = 5
 
 interface IWatcherInfo {
 	terminator: WatchTerminator
 	callback: WatcherCallback
 }
 
+/**
+ * Runs `fn` for every item with at most `concurrency` calls in flight at any given time
+ */
+async function forEachConcurrently<T>(items: T[], concurrency: number, fn: (item: T) => Promise<any>) {
+	let next = 0
+	const worker = async () => {
+		while (next < items.length) {
+			await fn(items[next++])
+		}
+	}
+	const workers = []
+	for (let i = 0; i < Math.min(Math.max(concurrency, 1), items.length); i++) {
+		workers.push(worker())
+	}
+	await Promise.all(workers)
+}
+
 export class Root extends Directory {
+	public static readonly serializationSpecVersion = 1
+
+	/**
+	 * Whether a row returned by `Root#getFileEntryAtIndex` stands for a chain of compacted directories (as opposed to a single entry)
+	 */
+	public static isCompactRow(row: FileOrDir | ICompactRow): row is ICompactRow {
+		return !!row && Array.isArray((row as ICompactRow).directories)
+	}
+
 	public readonly host: IBasicFileSystemHost
 	private readonly _pathfx: PathFx
 	private rootPath: string
 	private events: Notificar<FileTreeEvent>
+	/**
+	 * Every item of this tree that is not disposed, by id (ids are unique only within a `Root`)
+	 */
+	private idToFileEntry: Map<number, FileOrDir>
 	private onceItemVisibleWatchers: WeakMap<FileOrDir, { item: FileOrDir, disposer: DisposablesComposite, callbacks: Set<(item: FileOrDir) => void> }>
 	private onceDirectoryExpandedWatchers: WeakMap<Directory, Set<(directory: Directory, nowExpanded: boolean, visibleAtSurface: boolean) => void>>
 	private onceDisposedWatchers: WeakMap<FileOrDir, Set<(target: FileOrDir) => void>>
 	private onceParentChangedWatchers: WeakMap<FileOrDir, Set<(target: FileOrDir, prevParent: Directory, newParent: Directory) => void>>
 
 	private fswatchers: Map<string, IWatcherInfo>
+	/**
+	 * Terminator of the only watch session when `host.recursiveWatch` is set (`undefined` until it begins)
+	 */
+	private recursiveWatchTerminator: WatchTerminator
+	private _sortComparator: SortComparator
+	private _compactFolders: boolean
+	/**
+	 * Metadata keys `_sortComparator` depends on
+	 */
+	private sortMetadataKeys: Set<string>
 	/**
 	 * When a big chain of generic "change" events come our way, we batch them up in a queue and dispatch them "efficently" after 't' milliseconds.
 	 *
@@ -33,6 +80,11 @@ export class Root extends Directory {
 	 * Timeout after which all queued change events will be auto fired and list will be flushed for next use
 	 */
 	private eventFlushTimeout: number
+	/**
+	 * Nesting level of `Root#batch` calls
+	 */
+	private batchDepth: number
+	private branchDidUpdateDuringBatch: boolean
 
 	constructor(host: IBasicFileSystemHost, root: string) {
 		const pathfx = host.pathStyle === 'win32' ? win32 : unix
@@ -40,6 +92,10 @@ export class Root extends Directory {
 			throw new Error(`Root path must be absolute. Example: 'C:\\Users\\Desktop' or '/home/desktop'`)
 		}
 
+		// created ahead of `super` as `Root` gets registered too
+		const idToFileEntry: Map<number, FileOrDir> = new Map()
+		let nextId = 0
+
 		const superv: ITreeSupervisor = {
 			notifyWillProcessWatchEvent: (t: Directory, event: IWatcherEvent) => {
 				this.events.dispatch(FileTreeEvent.WillProcessWatchEvent, t, event)
@@ -48,10 +104,31 @@ export class Root extends Directory {
 				this.events.dispatch(FileTreeEvent.DidProcessWatchEvent, t, event)
 			},
 			notifyDidChangeMetadata: (t: FileEntry | Directory, change: IMetadataChange) => {
+				if (t.parent && this.sortMetadataKeys.has(change.key)) {
+					(t.parent as Root).repositionChild(t)
+				}
 				this.events.dispatch(FileTreeEvent.DidChangeMetadata, t, change)
 			},
-			notifyDidChangePath: (t: FileOrDir) => {
-				this.events.dispatch(FileTreeEvent.DidChangePath, t)
+			notifyDidAddItem: (t: FileOrDir) => {
+				this.events.dispatch(FileTreeEvent.DidAddItem, t)
+			},
+			notifyDidChangePartialLoadState: (t: Directory, partiallyLoaded: boolean) => {
+				this.events.dispatch(FileTreeEvent.DidChangePartialLoadState, t, partiallyLoaded)
+			},
+			notifyWillLoadDirectory: (t: Directory) => {
+				this.events.dispatch(FileTreeEvent.WillLoadDirectory, t)
+			},
+			notifyDidLoadDirectory: (t: Directory) => {
+				this.events.dispatch(FileTreeEvent.DidLoadDirectory, t)
+			},
+			notifyDidFailLoadDirectory: (t: Directory, error: any) => {
+				this.events.dispatch(FileTreeEvent.DidFailLoadDirectory, t, error)
+			},
+			notifyDidAbortLoadDirectory: (t: Directory) => {
+				this.events.dispatch(FileTreeEvent.DidAbortLoadDirectory, t)
+			},
+			notifyDidChangePath: (t: FileOrDir, prevPath: string) => {
+				this.events.dispatch(FileTreeEvent.DidChangePath, t, prevPath)
 			},
 			notifyWillChangeParent: (t: FileOrDir, prevParent: Directory, newParent: Directory) => {
 				this.events.dispatch(FileTreeEvent.WillChangeParent, t, prevParent, newParent)
@@ -94,20 +171,38 @@ export class Root extends Directory {
 				}
 				this.events.dispatch(FileTreeEvent.DidChangeExpansionState, t, nowExpanded, isVisibleAtSurface)
 			},
+			registerFileEntry: (t: FileOrDir): number => {
+				const id = nextId++
+				idToFileEntry.set(id, t)
+				return id
+			},
+			unregisterFileEntry: (t: FileOrDir) => {
+				idToFileEntry.delete(t.id)
+			},
 			supervisedWatch: (path: string, callback: WatcherCallback): WatchTerminator => {
 				path = pathfx.normalize(path)
-				// Might be overwritten if host.watch is available
-				let terminator: WatchTerminator = this.terminateWatch
+				if (host && host.recursiveWatch) {
+					// one watch (started along with Root's own) covers everything, events are routed by path
+					if (this.recursiveWatchTerminator === undefined && typeof host.watch === 'function') {
+						this.recursiveWatchTerminator = host.watch(pathfx.normalize(root)) || null
+					}
+					return null
+				}
+				let terminator: WatchTerminator = null
 				if (host && typeof host.watch === 'function') {
 					terminator = host.watch(path)
 				}
 
 				this.fswatchers.set(path, { terminator, callback })
-				return terminator
+				// host's terminator (if any) is called through ours, so that no record is left behind
+				return this.terminateWatch
 			},
 		}
 		// Root has no "parent" and no applicable "dirname" or "filename"
 		super(null, superv, null, null)
+		this.idToFileEntry = idToFileEntry
+		this.batchDepth = 0
+		this.branchDidUpdateDuringBatch = false
 		this._pathfx = pathfx
 		this.host = host
 		this.rootPath = root
@@ -118,7 +213,11 @@ export class Root extends Directory {
 		this.onceParentChangedWatchers = new WeakMap()
 		this.changeEventDispatchQueue = []
 		this.fswatchers = new Map()
+		this._sortComparator = (host && host.sortComparator) || Directory.defaultSortComparator
+		this.sortMetadataKeys = new Set((host && host.sortMetadataKeys) || [])
+		this._compactFolders = false
 		this.terminateWatch = this.terminateWatch.bind(this)
+		this.flushEventQueue = this.flushEventQueue.bind(this)
 		super.setExpanded()
 	}
 
@@ -139,6 +238,20 @@ export class Root extends Directory {
 		return this.rootPath
 	}
 
+	/**
+	 * Comparator every `Directory` of this tree sorts its children with, see `Root#setSortComparator`
+	 */
+	public get sortComparator(): SortComparator {
+		return this._sortComparator
+	}
+
+	/**
+	 * Whether chains of single-child directories are shown as one row, see `Root#setCompactFolders`
+	 */
+	public get compactFolders(): boolean {
+		return this._compactFolders
+	}
+
 	public onDidChangeDirExpansionState(cb: (directory: Directory, nowExpanded: boolean, visibleAtSurface: boolean) => void): IDisposable {
 		return this.events.add(FileTreeEvent.DidChangeExpansionState, cb)
 	}
@@ -154,6 +267,9 @@ export class Root extends Directory {
 		return this.events.add(FileTreeEvent.DidProcessWatchEvent, cb)
 	}
 
+	/**
+	 * Notified whenever flattened structure changes, once per change (a move or a removal is a single update) or once per `Root#batch`
+	 */
 	public onDidUpdate(cb: () => void): IDisposable {
 		return this.events.add(FileTreeEvent.BranchDidUpdate, cb)
 	}
@@ -174,7 +290,10 @@ export class Root extends Directory {
 		return this.events.add(FileTreeEvent.WillChangeParent, callback)
 	}
 
-	public onDidChangePath(callback: (target: FileOrDir) => void): IDisposable {
+	/**
+	 * Notified when path of an item changes (renamed, moved or any of its parents were), along with the path it had before
+	 */
+	public onDidChangePath(callback: (target: FileOrDir, prevPath: string) => void): IDisposable {
 		return this.events.add(FileTreeEvent.DidChangePath, callback)
 	}
 
@@ -182,6 +301,57 @@ export class Root extends Directory {
 		return this.events.add(FileTreeEvent.DidChangeMetadata, callback)
 	}
 
+	/**
+	 * Callback is called whenever a new `FileEntry` or `Directory` is added to the tree
+	 *
+	 * That is either when a `Directory` loads its contents or when new items come in through watch events (moves are reported through `Root#onDidChangeParent` instead)
+	 */
+	public onDidAddItem(callback: (target: FileOrDir) => void): IDisposable {
+		return this.events.add(FileTreeEvent.DidAddItem, callback)
+	}
+
+	/**
+	 * Callback is called when a `Directory` starts receiving its children in pages (after first page is in) and again once the last page is in
+	 *
+	 * See `Directory#partiallyLoaded`
+	 */
+	public onDidChangePartialLoadState(callback: (directory: Directory, partiallyLoaded: boolean) => void): IDisposable {
+		return this.events.add(FileTreeEvent.DidChangePartialLoadState, callback)
+	}
+
+	/**
+	 * Callback is called when a `Directory` starts loading its contents (`Directory#loadState` is now `DirectoryLoadState.Loading`)
+	 */
+	public onWillLoadDirectory(callback: (directory: Directory) => void): IDisposable {
+		return this.events.add(FileTreeEvent.WillLoadDirectory, callback)
+	}
+
+	/**
+	 * Callback is called once a `Directory` has loaded its contents, or has recovered from a failure (see `Directory#retryLoad`)
+	 */
+	public onDidLoadDirectory(callback: (directory: Directory) => void): IDisposable {
+		return this.events.add(FileTreeEvent.DidLoadDirectory, callback)
+	}
+
+	/**
+	 * Callback is called whenever listing a `Directory` fails (`host.getItems` rejected or threw), along with the error
+	 *
+	 * Examples: show an error row for a folder without read permissions, offer `Directory#retryLoad`
+	 */
+	public onDidFailLoadDirectory(callback: (directory: Directory, error: any) => void): IDisposable {
+		return this.events.add(FileTreeEvent.DidFailLoadDirectory, callback)
+	}
+
+	/**
+	 * Callback is called when loading a `Directory` gets cancelled, because it was collapsed before loading ended (a `Directory` that gets moved
+	 * is listed again at its new path instead)
+	 *
+	 * `Directory#loadState` goes back to what it was before loading started. Results of cancelled loads are never applied
+	 */
+	public onDidAbortLoadDirectory(callback: (directory: Directory) => void): IDisposable {
+		return this.events.add(FileTreeEvent.DidAbortLoadDirectory, callback)
+	}
+
 	public onOnceChangeParent(target: FileOrDir, callback: (target: FileOrDir, prevParent: Directory, newParent: Directory) => void): IDisposable {
 		if (!this.onceParentChangedWatchers.has(target)) {
 			this.onceParentChangedWatchers.set(target, new Set())
@@ -271,8 +441,11 @@ export class Root extends Directory {
 	 * visible at surface.
 	 *
 	 * Iterator will start at level `startingPoint#depth` (default `Root` thus `0`). To track `stepIns` and `stepOuts`, keep an eye on current item's `depth` (`FileEntry#depth`)
+	 *
+	 * Returned promise rejects if `startingPoint` fails to load
 	 */
 	public async iterateTopDown(callback: TopDownIteratorCallback, startingPoint: Directory = this) {
+		this.assertNotDisposed()
 		const stack: Array<IterableIterator<FileOrDir>> = []
 		let curIterable: IterableIterator<FileOrDir>
 		let curItem: FileEntry | Directory = startingPoint
@@ -304,18 +477,234 @@ export class Root extends Directory {
 			callback(curItem, next, stepIn, stepOut, exit)
 		}
 
-		stepIn()
+		await stepIn()
 	}
 
+	/**
+	 * Creates a `FilteredView` of this tree with its own flattened index space
+	 *
+	 * Filter can either be a predicate or a string (case insensitive match against `fileName`). Call `FilteredView#dispose` once the view is no longer needed
+	 */
+	public filter(predicateOrQuery: FilterPredicate | string): FilteredView {
+		this.assertNotDisposed()
+		return new FilteredView(this, predicateOrQuery)
+	}
+
+	/**
+	 * With compact folders enabled, the rest of the chain below `directory` is expanded as well (including directories that turn out to be only
+	 * children once loaded), as the chain shares a single row
+	 */
 	public expandDirectory(directory: Directory, ensureVisible = true) {
+		this.assertNotDisposed()
+		if (this._compactFolders) {
+			return this.expandCompactChain(directory as Root, ensureVisible)
+		}
 		return (directory as Root).setExpanded(ensureVisible)
 	}
 
+	/**
+	 * With compact folders enabled, it's the deepest directory of the chain `directory` belongs to that gets collapsed
+	 */
 	public collapseDirectory(directory: Directory) {
+		this.assertNotDisposed()
+		if (this._compactFolders) {
+			const chain = this.getCompactChain(directory)
+			return (chain[chain.length - 1] as Root).setCollapsed()
+		}
 		return (directory as Root).setCollapsed()
 	}
 
+	/**
+	 * Shows chains of single-child directories (like `src/main/java/com`) as a single row, like "compact folders" of VS Code
+	 *
+	 * Once enabled, a directory whose only child is a directory shares its row with that child (recursively). For rows of such chains
+	 * `Root#getFileEntryAtIndex` returns an `ICompactRow`, listing directories of the chain. Expanding or collapsing acts on the deepest one of them.
+	 * Chains split and merge on their own as entries get added or removed. Row of a chain appears expanded only when every directory in it is
+	 * expanded.
+	 */
+	public setCompactFolders(enabled: boolean) {
+		this.assertNotDisposed()
+		enabled = !!enabled
+		if (enabled === this._compactFolders) {
+			return
+		}
+		this.batch(() => {
+			// directories with a single directory child, regardless of the mode (Root has no row to share)
+			const chained: Root[] = []
+			const stack: Root[] = [this]
+			while (stack.length > 0) {
+				const dir = stack.pop()
+				const children = dir._children || []
+				if (dir !== this && children.length === 1 && children[0].type === FileType.Directory) {
+					chained.push(dir)
+				}
+				for (let i = 0; i < children.length; i++) {
+					if (children[i].type === FileType.Directory) {
+						stack.push(children[i] as Root)
+					}
+				}
+			}
+			this._compactFolders = enabled
+			for (let i = 0; i < chained.length; i++) {
+				chained[i].didToggleCompaction(enabled)
+			}
+		})
+	}
+
+	/**
+	 * Directories that share a row with given directory (top-most first), just `[directory]` if compact folders are disabled or it's not in a chain
+	 */
+	public getCompactChain(directory: Directory): Directory[] {
+		let head = directory as Root
+		while (head.parent && (head.parent as Root).compactedChild === head) {
+			head = head.parent as Root
+		}
+		const chain: Directory[] = [head]
+		while (head.compactedChild) {
+			head = head.compactedChild as Root
+			chain.push(head)
+		}
+		return chain
+	}
+
+	/**
+	 * Recursively expands given directory and its sub-directories
+	 *
+	 * Children are loaded level by level (up to `options.concurrency` loads at a time). Once everything is loaded, the whole branch is expanded in one go,
+	 * thus `Root#onDidUpdate` is notified only once. Directories that fail to load are left alone (see `Root#onDidFailLoadDirectory`).
+	 */
+	public async expandAll(directory: Directory, options: IExpandAllOptions = {}): Promise<void> {
+		this.assertNotDisposed()
+		const { maxDepth = Infinity, concurrency = 8, filter, ensureVisible = true } = options
+		const toExpand: Directory[] = []
+		let level: Directory[] = [directory]
+		for (let depth = 0; level.length > 0; depth++) {
+			await forEachConcurrently(level, concurrency, (dir) => dir.ensureLoaded().catch(() => undefined))
+			const nextLevel: Directory[] = []
+			for (let i = 0; i < level.length; i++) {
+				const dir = level[i]
+				if (dir.disposed || !(dir as Root)._children) {
+					continue
+				}
+				toExpand.push(dir)
+				if (depth >= maxDepth) {
+					continue
+				}
+				const children = (dir as Root)._children
+				for (let j = 0; j < children.length; j++) {
+					const child = children[j]
+					if (child.type === FileType.Directory && (!filter || filter(child as Directory))) {
+						nextLevel.push(child as Directory)
+					}
+				}
+			}
+			level = nextLevel
+		}
+		await this.batch(async () => {
+			// bottom-up, deeper branches get merged into their (still collapsed) parents first
+			for (let i = toExpand.length - 1; i > 0; i--) {
+				if (!toExpand[i].disposed) {
+					await (toExpand[i] as Root).setExpanded(false)
+				}
+			}
+			if (!directory.disposed && (directory as Root)._children) {
+				await (directory as Root).setExpanded(ensureVisible)
+			}
+		})
+	}
+
+	/**
+	 * Collapses given directory along with every loaded sub-directory (recursively), so they won't pop back open when expanded again
+	 *
+	 * `Root#onDidUpdate` is notified only once
+	 */
+	public collapseAll(directory: Directory) {
+		this.assertNotDisposed()
+		this.batch(() => {
+			// top-down, once the top one is collapsed, rest of the branch isn't visible and won't affect `Root`
+			const stack: Directory[] = [directory]
+			while (stack.length > 0) {
+				const dir = stack.pop() as Root
+				dir.setCollapsed()
+				const children = dir._children
+				if (!children) {
+					continue
+				}
+				for (let i = children.length - 1; i >= 0; i--) {
+					if (children[i].type === FileType.Directory) {
+						stack.push(children[i] as Directory)
+					}
+				}
+			}
+		})
+	}
+
+	/**
+	 * Lists directory at `path` again and reconciles its contents, see `WatchEvent.Changed` (minus the debounce)
+	 *
+	 * With `options.recursive`, every loaded sub-directory is re-listed as well (top-down, those gone in the process are skipped). Entries that still
+	 * exist keep their ids, metadata and expansion state. Directories that aren't loaded are left alone, they'll be fresh whenever they get loaded.
+	 *
+	 * Returned `Promise` resolves once everything is re-listed, it never rejects for failed listings (see `Root#onDidFailLoadDirectory`)
+	 */
+	public async refresh(path: string = this.path, options: IRefreshOptions = {}): Promise<void> {
+		this.assertNotDisposed()
+		// throws `PathNotFoundError` if there's no such entry, `null` means an ancestor isn't loaded and there's nothing to re-list
+		const target = this._children ? this.findFileEntryInLoadedTree(path) : null
+		if (!target) {
+			return
+		}
+		if (target.type !== FileType.Directory) {
+			throw new TypeError(`Cannot refresh '${path}', it's not a directory`)
+		}
+		const refresh = async (directory: Root) => {
+			if (directory.disposed || !directory._children) {
+				return
+			}
+			await directory.reconcileChildren()
+			if (options.recursive && directory._children) {
+				await Promise.all(directory._children.filter((child) => child.type === FileType.Directory).map(refresh))
+			}
+		}
+		await refresh(target as Root)
+	}
+
+	/**
+	 * Changes sort order of the tree (like sorting by name, modification time or size)
+	 *
+	 * Every loaded directory is re-sorted in one pass, ids and expansion state are kept and `Root#onDidUpdate` is notified once. If the comparator
+	 * looks at metadata, list those keys as `metadataKeys`, entries then get repositioned as soon as any of these change (see `FileEntry#addMetadata`).
+	 *
+	 * Pass `null` to go back to `host.sortComparator` (and `host.sortMetadataKeys`), or the default order if host has none
+	 */
+	public setSortComparator(comparator: SortComparator, metadataKeys: string[] = []) {
+		this.assertNotDisposed()
+		if (comparator !== null && typeof comparator !== 'function') {
+			throw new TypeError(`Expected comparator to be a function (or null)`)
+		}
+		if (comparator === null) {
+			comparator = this.host.sortComparator || Directory.defaultSortComparator
+			metadataKeys = this.host.sortMetadataKeys || []
+		}
+		this._sortComparator = comparator
+		this.sortMetadataKeys = new Set(metadataKeys)
+		this.batch(() => {
+			const stack: Directory[] = [this]
+			while (stack.length > 0) {
+				const dir = stack.pop() as Root
+				dir.sortChildren()
+				const children = dir._children || []
+				for (let i = 0; i < children.length; i++) {
+					if (children[i].type === FileType.Directory) {
+						stack.push(children[i] as Directory)
+					}
+				}
+			}
+		})
+	}
+
 	public inotify(event: IWatcherEvent): void {
+		this.assertNotDisposed()
 		switch (event.type) {
 			case WatchEvent.Moved:
 				return this.dispatchWatchEvent(this.pathfx.dirname(event.oldPath), event)
@@ -328,15 +717,135 @@ export class Root extends Directory {
 		}
 	}
 
+	/**
+	 * Exports everything that is loaded (names, types, keys, metadata and expansion state) as a JSON friendly structure
+	 *
+	 * Use `Root#hydrate` on a new `Root` to get the tree back instantly, without waiting for the host
+	 */
+	public serialize(): ISerializedTree {
+		return {
+			specVersion: Root.serializationSpecVersion,
+			path: this.path,
+			children: this._children ? this._children.map((child) => (child as Root).toSerializedEntry()) : null,
+		}
+	}
+
+	/**
+	 * Populates the tree from data produced by `Root#serialize`
+	 *
+	 * Tree is populated synchronously, only directories that aren't loaded yet are populated (expansion state is restored for those). Once populated,
+	 * every hydrated directory is reconciled with fresh `host.getItems` results in the background, entries that still exist keep their ids and state.
+	 *
+	 * Returned `Promise` resolves once reconciliation finishes
+	 */
+	public async hydrate(tree: ISerializedTree): Promise<void> {
+		this.assertNotDisposed()
+		if (!tree || tree.specVersion !== Root.serializationSpecVersion) {
+			throw new TypeError(`Expected serialized tree with specVersion ${Root.serializationSpecVersion}`)
+		}
+		if (this.pathfx.normalize(tree.path) !== this.pathfx.normalize(this.path)) {
+			throw new Error(`Serialized tree belongs to '${tree.path}', not '${this.path}'`)
+		}
+		if (!Array.isArray(tree.children)) {
+			return
+		}
+		const hydrated = new Set(this.batch(() => this.hydrateChildren(tree.children)))
+		// top-down, so that directories removed from parents in the process aren't listed needlessly
+		const reconcile = async (directory: Directory) => {
+			if (directory.disposed) {
+				return
+			}
+			await (directory as Root).reconcileChildren()
+			await Promise.all((directory.children || []).filter((child) => hydrated.has(child as Directory)).map(reconcile))
+		}
+		await Promise.all(Array.from(hydrated).filter((directory) => !hydrated.has(directory.parent)).map(reconcile))
+	}
+
+	/**
+	 * Dispatches multiple watch events in one go, see `Root#batch`
+	 */
+	public inotifyMany(events: IWatcherEvent[]): void {
+		this.batch(() => {
+			for (let i = 0; i < events.length; i++) {
+				this.inotify(events[i])
+			}
+		})
+	}
+
+	/**
+	 * Runs `fn` as a transaction
+	 *
+	 * Tree mutations (inserts, removals, moves, expansions) made while `fn` runs are applied right away, but `Root#onDidUpdate` is notified only once
+	 * at the end (if anything changed)
+	 *
+	 * If `fn` returns a `Promise`, transaction ends when it settles. Batches can be nested, only the outermost one will notify.
+	 */
+	public batch<T>(fn: () => T): T {
+		this.assertNotDisposed()
+		this.batchDepth++
+		let result: T
+		try {
+			result = fn()
+		} catch (error) {
+			this.endBatch()
+			throw error
+		}
+		if (result instanceof Promise) {
+			return result.then(
+				(value) => { this.endBatch(); return value },
+				(error) => { this.endBatch(); throw error }) as typeof result
+		}
+		this.endBatch()
+		return result
+	}
+
+	/**
+	 * Looks up an item of this tree by its `FileEntry#id`
+	 *
+	 * Ids are unique only within a `Root`, items of other trees (or ones that were disposed) are never returned
+	 */
+	public getFileEntryById(id: number): FileOrDir {
+		return this.idToFileEntry.get(id)
+	}
+
 	public getIndexAtFileEntryID(id: number) {
-		return this.flattenedBranch.indexOf(id)
+		const fileEntry = this.getFileEntryById(id)
+		return fileEntry ? this.getIndexAtFileEntry(fileEntry) : -1
 	}
 
 	/**
 	 * Reverse of `Root#getFileEntryAtIndex`
+	 *
+	 * Returns `-1` if item is not visible at surface. Runs in `O(depth * log(siblings))`
 	 */
-	public getIndexAtFileEntry(fileEntry: FileOrDir) {
-		return this.flattenedBranch.indexOf(fileEntry.id)
+	public getIndexAtFileEntry(fileEntry: FileOrDir | ICompactRow) {
+		if (Root.isCompactRow(fileEntry)) {
+			fileEntry = fileEntry.item
+		}
+		if (!fileEntry || fileEntry === this || fileEntry.disposed || fileEntry.root !== this) {
+			return -1
+		}
+		let index = 0
+		let child: FileOrDir = fileEntry
+		// compacted directories are found at the row of their chain
+		while (child.parent && (child.parent as Root).compactedChild === child) {
+			child = child.parent
+		}
+		while (child !== this) {
+			const dir = child.parent as Root
+			// a collapsed directory (or one yet to be merged) on the way means the item is buried
+			if (!dir || dir.disposed || (dir !== this && dir.ownsBranch)) {
+				return -1
+			}
+			const offset = dir.getChildOffset(child)
+			if (offset === -1) {
+				return -1
+			}
+			// +1 to accomodate for the row of `dir` itself (if it isn't sharing its parent's)
+			index += offset + (dir === this || (dir.parent as Root).compactedChild === dir ? 0 : 1)
+			child = dir
+		}
+		return index
 	}
 
 	/**
@@ -350,10 +859,39 @@ export class Root extends Directory {
 	 *
 	 * Use `Root#branchSize` and `Root#getFileEntryAtIndex` respectively.
 	 *
+	 * With compact folders enabled, rows of directory chains resolve to an `ICompactRow` (a new one with every call, see `Root#isCompactRow`)
+	 *
+	 * Runs in `O(depth * log(siblings) + length of compacted chain)`
 	 */
-	public getFileEntryAtIndex(index: number) {
-		const id = this.flattenedBranch[index]
-		return FileEntry.getFileEntryById(id)
+	public getFileEntryAtIndex(index: number): FileOrDir | ICompactRow {
+		if (!Number.isInteger(index) || index < 0 || index >= this._branchSize) {
+			return undefined
+		}
+		let dir: Root = this
+		let offset = index
+		while (true) {
+			const child = dir.getChildAtOffset(offset)
+			const remainder = offset - dir.getChildOffset(child)
+			if (dir.compactedChild === child) {
+				// `child` shares the row of `dir`, its branch starts right away
+				dir = child as Root
+				offset = remainder
+				continue
+			}
+			if (remainder === 0) {
+				if (child.type !== FileType.Directory || !(child as Root).compactedChild) {
+					return child
+				}
+				const directories: Directory[] = [child as Directory]
+				for (let next = (child as Root).compactedChild; next; next = (next as Root).compactedChild) {
+					directories.push(next)
+				}
+				return { item: directories[directories.length - 1], directories }
+			}
+			// -1 for the row of `child` itself
+			dir = child as Root
+			offset = remainder - 1
+		}
 	}
 
 	/**
@@ -376,7 +914,7 @@ export class Root extends Directory {
 			if (!item ||
 				// we hit a dead end while we still had path to traverse
 				(item.type === FileType.File && pathfrags.length > 0)) {
-				throw new Error(`'${path}' not found`)
+				throw new PathNotFoundError(path, item ? pathfrags[0] : fileName)
 			}
 			if (item.type === FileType.Directory) {
 				if (!(item as Root)._children) {
@@ -393,32 +931,83 @@ export class Root extends Directory {
 	 * This method will force load children of `Directory` if it comes in way of specified path. However, it will not affect visual state of tree.
 	 */
 	public async forceLoadFileEntryAtPath(path: string): Promise<Directory | FileEntry> {
+		this.assertNotDisposed()
 		const pathfrags = this.pathfx.isRelative(path) ? this.pathfx.splitPath(path) : this.walkPathTillRelative(path)
 		if (pathfrags.length === 0) {
 			return this
 		}
 		await this.ensureLoaded()
-		let next = this._children
+		let dir: Directory = this
 		let fileName
 		while (fileName = pathfrags.shift()) {
-			const item = next.find((c) => c.fileName === fileName)
+			let item = (dir as Root)._children.find((c) => c.fileName === fileName)
+			if (!item && dir.partiallyLoaded) {
+				// might as well be in one of the pages yet to come
+				await (dir as Root).whenFullyLoaded()
+				item = (dir as Root)._children.find((c) => c.fileName === fileName)
+			}
 			if (item && pathfrags.length === 0) {
 				return item
 			}
 			if (!item ||
 				// we hit a dead end while we still had path to traverse
 				(item.type === FileType.File && pathfrags.length > 0)) {
-				throw new Error(`'${path}' not found`)
+				throw new PathNotFoundError(path, item ? pathfrags[0] : fileName)
 			}
 			if (item.type === FileType.Directory) {
 				if (!(item as Root)._children) {
 					await (item as Root).hardReloadChildren()
 				}
-				next = (item as Root)._children
+				dir = item as Directory
 			}
 		}
 	}
 
+	/**
+	 * Reveals the item at given path, like "Reveal in Explorer"
+	 *
+	 * Loads every directory along the way, expands all the parents of the item and resolves with the item and its index in the flattened structure.
+	 * Expansion is done in one go, so `Root#onDidUpdate` is notified only once. If a watch event alters the path while directories are loading, lookup is
+	 * retried. Revealing `Root`'s own path resolves with `Root` itself and index `-1`, as it has no row of its own.
+	 *
+	 * Rejects with `PathNotFoundError` (pointing at the segment that failed) if the path does not exist, or `PathChangedError` if it's still changing
+	 * after a few retries
+	 */
+	public async revealPath(path: string): Promise<{ item: FileOrDir, index: number }> {
+		let item: FileOrDir
+		for (let attempt = 1; ; attempt++) {
+			item = await this.forceLoadFileEntryAtPath(path)
+			let current: FileOrDir
+			try {
+				current = this.findFileEntryInLoadedTree(path)
+			} catch (error) {
+				current = null
+			}
+			if (current === item) {
+				break
+			}
+			if (attempt === REVEAL_ATTEMPTS) {
+				throw new PathChangedError(path, attempt)
+			}
+		}
+		if (item === this) {
+			return { item, index: -1 }
+		}
+		return this.batch(() => {
+			// bottom-up, deeper branches get merged into their (possibly collapsed) parents first
+			for (let dir = item.parent as Root; dir && dir !== this; dir = dir.parent as Root) {
+				if (!dir.expanded) {
+					// children are loaded, so this goes through synchronously
+					dir.setExpanded(false)
+				} else if (dir.ownsBranch) {
+					// expanded, but yet to be merged (`Directory#setExpanded` still in progress)
+					dir.expandBranch()
+				}
+			}
+			return { item, index: this.getIndexAtFileEntry(item) }
+		})
+	}
+
 	/**
 	 * Checks if an item is visible at surface, as opposed to being buried in the tree.
 	 *
@@ -431,7 +1020,7 @@ export class Root extends Directory {
 		if (item === this) {
 			return true
 		}
-		return this.flattenedBranch.indexOf(item.id) > -1
+		return this.getIndexAtFileEntry(item) > -1
 	}
 
 	public setExpanded(ensureVisible?: boolean): Promise<void> {
@@ -445,7 +1034,7 @@ export class Root extends Directory {
 	}
 
 	public async flushEventQueue() {
-		if (this.changeEventDispatchQueue.length === 0) {
+		if (this.disposed || this.changeEventDispatchQueue.length === 0) {
 			return
 		}
 		this.changeEventDispatchQueue.sort((pathA, pathB) => {
@@ -454,9 +1043,9 @@ export class Root extends Directory {
 			return pathADepth - pathBDepth
 		})
 		const promise = pSeries(this.changeEventDispatchQueue.map((path) => async () => {
-			const watcher = this.fswatchers.get(path)
-			if (watcher && typeof watcher.callback === 'function') {
-				await watcher.callback({ type: WatchEvent.Changed, directory: path })
+			const callback = this.getWatchCallback(path)
+			if (callback) {
+				await callback({ type: WatchEvent.Changed, directory: path })
 			}
 			return null
 		}) as any)
@@ -465,11 +1054,55 @@ export class Root extends Directory {
 		return promise
 	}
 
-	protected setFlattenedBranch(branch: Uint32Array) {
-		this.flattenedBranch = branch
+	/**
+	 * Shuts the tree down
+	 *
+	 * Terminates every watch session, drops queued change events, aborts loads in progress and disposes every item (`Root#onWillDispose` and
+	 * `Root#onDidDispose` are notified for each, `Root` itself being the last one). Every listener added through `on*` methods is removed afterwards.
+	 * No rows are left behind, `Root#branchSize` drops to `0`.
+	 *
+	 * Once disposed, methods like `Root#inotify`, `Root#expandDirectory` or `Root#forceLoadFileEntryAtPath` throw
+	 */
+	public dispose() {
+		if (this.disposed) {
+			return
+		}
+		clearTimeout(this.eventFlushTimeout)
+		this.changeEventDispatchQueue = []
+		super.dispose()
+		// directories have terminated their own watches by now, just in case anything is left
+		for (const path of Array.from(this.fswatchers.keys())) {
+			this.terminateWatch(path)
+		}
+		if (typeof this.recursiveWatchTerminator === 'function') {
+			this.recursiveWatchTerminator(this.pathfx.normalize(this.rootPath))
+		}
+		this.recursiveWatchTerminator = null
+		this.idToFileEntry.clear()
+		this._branchSize = 0
+		this.events.clear()
+		this.onceItemVisibleWatchers = new WeakMap()
+		this.onceDirectoryExpandedWatchers = new WeakMap()
+		this.onceDisposedWatchers = new WeakMap()
+		this.onceParentChangedWatchers = new WeakMap()
+	}
+
+	protected didUpdateBranch() {
+		if (this.batchDepth > 0) {
+			this.branchDidUpdateDuringBatch = true
+			return
+		}
 		this.events.dispatch(FileTreeEvent.BranchDidUpdate)
 	}
 
+	private endBatch() {
+		this.batchDepth--
+		if (this.batchDepth === 0 && this.branchDidUpdateDuringBatch) {
+			this.branchDidUpdateDuringBatch = false
+			this.events.dispatch(FileTreeEvent.BranchDidUpdate)
+		}
+	}
+
 	private walkPathTillRelative(path: string): string[] {
 		if (typeof path !== 'string') {
 			throw new TypeError('Path must of type string')
@@ -506,14 +1139,65 @@ export class Root extends Directory {
 	}
 
 	private dispatchWatchEvent(path: string, event: IWatcherEvent) {
-		const watcher = this.fswatchers.get(this.pathfx.normalize(path))
-		if (watcher && watcher.callback) {
-			watcher.callback(event)
+		const callback = this.getWatchCallback(path)
+		if (callback) {
+			callback(event)
+		}
+	}
+
+	/**
+	 * Callback of the watch session of directory at `path`, in recursive mode that's the loaded `Directory` at `path` itself
+	 */
+	private getWatchCallback(path: string): WatcherCallback {
+		path = this.pathfx.normalize(path)
+		if (!this.host.recursiveWatch) {
+			const watcher = this.fswatchers.get(path)
+			return watcher && watcher.callback
+		}
+		if (!this.pathfx.isPathInside(path, this.path)) {
+			return null
+		}
+		let directory: FileOrDir
+		try {
+			directory = this.findFileEntryInLoadedTree(path)
+		} catch (error) {
+			return null
+		}
+		if (!directory || directory.type !== FileType.Directory || !(directory as Root)._children) {
+			return null
+		}
+		return (directory as Root).handleWatchEvent
+	}
+
+	private async expandCompactChain(directory: Root, ensureVisible: boolean) {
+		let current = directory
+		while (true) {
+			await current.setExpanded(ensureVisible)
+			// chain may have grown now that `current` is loaded
+			const next = current.compactedChild as Root
+			if (!next || !current.expanded) {
+				return
+			}
+			current = next
+		}
+	}
+
+	private assertNotDisposed() {
+		if (this.disposed) {
+			throw new Error(`Root is disposed`)
 		}
 	}
 
 	private terminateWatch(path: string) {
-		this.fswatchers.delete(this.pathfx.normalize(path))
+		path = this.pathfx.normalize(path)
+		const watcher = this.fswatchers.get(path)
+		if (!watcher) {
+			return
+		}
+		this.fswatchers.delete(path)
+		if (typeof watcher.terminator === 'function') {
+			watcher.terminator(path)
+		}
 	}
 
 }
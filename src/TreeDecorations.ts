@@ -0,0 +1,429 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir } from './types'
+
+enum TreeDecorationsEvent {
+	DidChange = 1,
+}
+
+/**
+ * What a provider wants shown next to an entry, interpretation is up to the UI
+ */
+export interface IDecoration {
+	/**
+	 * Short text like `M`, `2` or `●`
+	 */
+	badge?: string
+	color?: string
+	tooltip?: string
+	/**
+	 * Decorations with higher priority win when there's room for only one. Defaults to `0`
+	 */
+	priority?: number
+	/**
+	 * Whether parent directories should show this decoration too (see `TreeDecorations#getAggregatedDecorations`)
+	 */
+	bubble?: boolean
+}
+
+/**
+ * Roll-up of bubbling decorations of one provider under a directory
+ */
+export interface IAggregatedDecoration {
+	provider: string
+	/**
+	 * Decoration with highest priority among the descendants
+	 */
+	decoration: IDecoration
+	/**
+	 * Number of descendants with a bubbling decoration from this provider
+	 */
+	count: number
+}
+
+/**
+ * Handle given out by `TreeDecorations#registerProvider`
+ */
+export interface IDecorationProvider extends IDisposable {
+	readonly id: string
+	/**
+	 * Decorates the entry at `path` (replacing what this provider had there), `null` removes the decoration
+	 *
+	 * Path does not have to be loaded in the tree, decorations of unloaded entries bubble up to their loaded ancestors just the same
+	 */
+	set(path: string, decoration: IDecoration): void
+	delete(path: string): void
+	/**
+	 * Removes every decoration of this provider
+	 */
+	clear(): void
+}
+
+interface IAggregateEntry {
+	decoration: IDecoration
+	count: number
+}
+
+interface IOrderedPath {
+	/**
+	 * Segments of `path`, each followed by `\u0000`, so that paths under a directory share its key as a prefix
+	 */
+	key: string
+	path: string
+	/**
+	 * Order in which paths got decorated, moved paths are replayed in it
+	 */
+	seq: number
+}
+
+/**
+ * Position of the first entry whose key is not less than `key`
+ */
+function lowerBound(ordered: IOrderedPath[], key: string): number {
+	let low = 0
+	let high = ordered.length
+	while (low < high) {
+		const mid = (low + high) >>> 1
+		if (ordered[mid].key < key) {
+			low = mid + 1
+		} else {
+			high = mid
+		}
+	}
+	return low
+}
+
+/**
+ * Decorations (like git status, problems or "unsaved" dots) of a `Root`, keyed by path
+ *
+ * Any number of providers can decorate entries. Bubbling decorations are rolled up for every ancestor directory incrementally, so a collapsed
+ * (or not even loaded) directory can tell what's inside it without walking anything.
+ *
+ * Decorations follow their entries when these are renamed or moved within the tree, and are dropped when entries are removed from it. Change
+ * events are dispatched for every loaded item whose decorations (own or aggregated) changed.
+ */
+export class TreeDecorations {
+	private root: Root
+	private rootPath: string
+	private events: Notificar<TreeDecorationsEvent>
+	private disposables: DisposablesComposite
+	/**
+	 * Decorations by path, then by provider id
+	 */
+	private own: Map<string, Map<string, IDecoration>>
+	/**
+	 * Keys of `own` sorted by `IOrderedPath#key`, every path is followed by those under it
+	 */
+	private ordered: IOrderedPath[]
+	private nextSeq: number
+	/**
+	 * Roll-ups by directory path, then by provider id, then by decoration fingerprint
+	 */
+	private aggregates: Map<string, Map<string, Map<string, IAggregateEntry>>>
+	/**
+	 * Decorated paths by provider id
+	 */
+	private providers: Map<string, Set<string>>
+	private _disposed: boolean
+
+	constructor(root: Root) {
+		this.root = root
+		this.rootPath = root.pathfx.removeTrailingSlashes(root.pathfx.normalize(root.path))
+		this.events = new Notificar()
+		this.disposables = new DisposablesComposite()
+		this.own = new Map()
+		this.ordered = []
+		this.nextSeq = 0
+		this.aggregates = new Map()
+		this.providers = new Map()
+		this._disposed = false
+
+		this.disposables.add(root.onDidChangePath(this.handlePathChange))
+		this.disposables.add(root.onWillDispose(this.handleDispose))
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Registers a provider with given id (like `git` or `problems`), ids must be unique. Disposing the provider removes all of its decorations
+	 */
+	public registerProvider(id: string): IDecorationProvider {
+		this.assertNotDisposed()
+		if (typeof id !== 'string' || this.providers.has(id)) {
+			throw new TypeError(`Provider id must be a unique string ('${id}' is taken or invalid)`)
+		}
+		this.providers.set(id, new Set())
+		const usable = () => {
+			if (this._disposed || !this.providers.has(id)) {
+				throw new Error(`Decoration provider '${id}' is disposed`)
+			}
+		}
+		return {
+			id,
+			set: (path: string, decoration: IDecoration) => {
+				usable()
+				const changed: Set<string> = new Set()
+				this.apply(id, this.normalize(path), decoration || null, changed)
+				this.notifyDidChange(changed)
+			},
+			delete: (path: string) => {
+				usable()
+				const changed: Set<string> = new Set()
+				this.apply(id, this.normalize(path), null, changed)
+				this.notifyDidChange(changed)
+			},
+			clear: () => {
+				usable()
+				this.clearProvider(id)
+			},
+			dispose: () => {
+				if (this._disposed || !this.providers.has(id)) {
+					return
+				}
+				this.clearProvider(id)
+				this.providers.delete(id)
+			},
+		}
+	}
+
+	/**
+	 * Decorations of the entry itself, highest priority first
+	 */
+	public getDecorations(target: FileOrDir | string): IDecoration[] {
+		const decorations = this.own.get(this.pathOf(target))
+		if (!decorations) {
+			return []
+		}
+		return Array.from(decorations.values()).sort((a, b) => (b.priority || 0) - (a.priority || 0))
+	}
+
+	/**
+	 * Roll-ups of bubbling decorations of every descendant (loaded or not) of the directory, one per provider, highest priority first
+	 */
+	public getAggregatedDecorations(target: Directory | string): IAggregatedDecoration[] {
+		const byProvider = this.aggregates.get(this.pathOf(target))
+		if (!byProvider) {
+			return []
+		}
+		const result: IAggregatedDecoration[] = []
+		for (const [provider, entries] of byProvider) {
+			let top: IDecoration = null
+			let count = 0
+			for (const entry of entries.values()) {
+				count += entry.count
+				if (!top || (entry.decoration.priority || 0) > (top.priority || 0)) {
+					top = entry.decoration
+				}
+			}
+			result.push({ provider, decoration: top, count })
+		}
+		return result.sort((a, b) => (b.decoration.priority || 0) - (a.decoration.priority || 0))
+	}
+
+	/**
+	 * Callback is called for every loaded item whose own or aggregated decorations changed
+	 */
+	public onDidChangeDecorations(callback: (target: FileOrDir) => void): IDisposable {
+		return this.events.add(TreeDecorationsEvent.DidChange, callback)
+	}
+
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		this.disposables.dispose()
+		this.own.clear()
+		this.ordered = []
+		this.aggregates.clear()
+		this.providers.clear()
+		this.events.clear()
+	}
+
+	private assertNotDisposed() {
+		if (this._disposed) {
+			throw new Error(`TreeDecorations is disposed`)
+		}
+	}
+
+	private normalize(path: string): string {
+		if (typeof path !== 'string' || this.root.pathfx.isRelative(path)) {
+			throw new TypeError(`Path must be absolute`)
+		}
+		return this.root.pathfx.removeTrailingSlashes(this.root.pathfx.normalize(path))
+	}
+
+	private pathOf(target: FileOrDir | string): string {
+		if (typeof target === 'string') {
+			return this.normalize(target)
+		}
+		return target.disposed ? null : this.normalize(target.path)
+	}
+
+	/**
+	 * Parent directories of `path` up to (and including) `Root`
+	 */
+	private ancestorsOf(path: string): string[] {
+		const ancestors: string[] = []
+		let current = path
+		while (current !== this.rootPath) {
+			const parent = this.root.pathfx.dirname(current)
+			if (parent === current) {
+				break
+			}
+			ancestors.push(parent)
+			current = parent
+		}
+		return ancestors
+	}
+
+	/**
+	 * Replaces decoration of provider `id` at `path`, paths that need a change event are collected into `changed`
+	 */
+	private apply(id: string, path: string, decoration: IDecoration, changed: Set<string>) {
+		if (!this.root.pathfx.isPathInside(path, this.rootPath)) {
+			return
+		}
+		const decorations = this.own.get(path)
+		const prev = (decorations && decorations.get(id)) || null
+		if (prev === decoration) {
+			return
+		}
+		if (prev && prev.bubble) {
+			this.aggregate(id, path, prev, -1, changed)
+		}
+		if (decoration) {
+			const frozen = Object.freeze({ ...decoration })
+			if (decorations) {
+				decorations.set(id, frozen)
+			} else {
+				this.own.set(path, new Map([[id, frozen]]))
+				const key = this.orderKeyOf(path)
+				this.ordered.splice(lowerBound(this.ordered, key), 0, { key, path, seq: this.nextSeq++ })
+			}
+			this.providers.get(id).add(path)
+			if (frozen.bubble) {
+				this.aggregate(id, path, frozen, 1, changed)
+			}
+		} else {
+			decorations.delete(id)
+			if (decorations.size === 0) {
+				this.own.delete(path)
+				this.ordered.splice(lowerBound(this.ordered, this.orderKeyOf(path)), 1)
+			}
+			this.providers.get(id).delete(path)
+		}
+		changed.add(path)
+	}
+
+	private aggregate(id: string, path: string, decoration: IDecoration, delta: number, changed: Set<string>) {
+		const fingerprint = `${decoration.priority || 0}\u0000${decoration.badge}\u0000${decoration.color}\u0000${decoration.tooltip}`
+		const ancestors = this.ancestorsOf(path)
+		for (let i = 0; i < ancestors.length; i++) {
+			const ancestor = ancestors[i]
+			let byProvider = this.aggregates.get(ancestor)
+			if (!byProvider) {
+				byProvider = new Map()
+				this.aggregates.set(ancestor, byProvider)
+			}
+			let entries = byProvider.get(id)
+			if (!entries) {
+				entries = new Map()
+				byProvider.set(id, entries)
+			}
+			const entry = entries.get(fingerprint) || { decoration, count: 0 }
+			entry.count += delta
+			if (entry.count > 0) {
+				entries.set(fingerprint, entry)
+			} else {
+				entries.delete(fingerprint)
+				if (entries.size === 0) {
+					byProvider.delete(id)
+				}
+				if (byProvider.size === 0) {
+					this.aggregates.delete(ancestor)
+				}
+			}
+			changed.add(ancestor)
+		}
+	}
+
+	private clearProvider(id: string) {
+		const changed: Set<string> = new Set()
+		for (const path of Array.from(this.providers.get(id))) {
+			this.apply(id, path, null, changed)
+		}
+		this.notifyDidChange(changed)
+	}
+
+	private orderKeyOf(path: string): string {
+		return this.root.pathfx.splitPath(path).map((segment) => `${segment}\u0000`).join('')
+	}
+
+	/**
+	 * Decorated paths at or under `path` in order they got decorated, found by a range search over `ordered` (not a scan of every decorated path)
+	 */
+	private decoratedPathsUnder(path: string): string[] {
+		const prefix = this.orderKeyOf(path)
+		const found: IOrderedPath[] = []
+		for (let i = lowerBound(this.ordered, prefix); i < this.ordered.length && this.ordered[i].key.startsWith(prefix); i++) {
+			found.push(this.ordered[i])
+		}
+		return found.sort((a, b) => a.seq - b.seq).map((entry) => entry.path)
+	}
+
+	private handlePathChange = (target: FileOrDir, prevPath: string) => {
+		if (typeof prevPath !== 'string' || target.disposed) {
+			return
+		}
+		prevPath = this.normalize(prevPath)
+		const newPath = this.normalize(target.path)
+		if (prevPath === newPath) {
+			return
+		}
+		const changed: Set<string> = new Set()
+		for (const path of this.decoratedPathsUnder(prevPath)) {
+			const movedTo = newPath + path.slice(prevPath.length)
+			for (const [id, decoration] of Array.from(this.own.get(path))) {
+				this.apply(id, path, null, changed)
+				this.apply(id, movedTo, decoration, changed)
+			}
+		}
+		this.notifyDidChange(changed)
+	}
+
+	private handleDispose = (target: FileOrDir) => {
+		if (target === this.root) {
+			return this.dispose()
+		}
+		let path: string
+		try {
+			path = this.normalize(target.path)
+		} catch (error) {
+			// detached already, nothing to go by
+			return
+		}
+		const changed: Set<string> = new Set()
+		for (const decorated of this.decoratedPathsUnder(path)) {
+			for (const id of Array.from(this.own.get(decorated).keys())) {
+				this.apply(id, decorated, null, changed)
+			}
+		}
+		changed.delete(path)
+		this.notifyDidChange(changed)
+	}
+
+	private notifyDidChange(paths: Set<string>) {
+		for (const path of paths) {
+			let item: FileOrDir
+			try {
+				item = this.root.findFileEntryInLoadedTree(path)
+			} catch (error) {
+				// not in the tree (anymore)
+				continue
+			}
+			if (item && !item.disposed) {
+				this.events.dispatch(TreeDecorationsEvent.DidChange, item)
+			}
+		}
+	}
+}
@@ -0,0 +1,284 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir, FileType } from './types'
+
+enum TreeNavigatorEvent {
+	DidChangeFocus = 1,
+}
+
+/**
+ * Keyboard navigation over the flattened structure of a `Root`, with the usual tree-view semantics:
+ *
+ *  - `Up`/`Down` (`TreeNavigator#prev`/`TreeNavigator#next`) move to adjacent visible item
+ *  - `Left` (`TreeNavigator#left`) collapses expanded directory or jumps to the parent
+ *  - `Right` (`TreeNavigator#right`) expands collapsed directory or moves to its first child
+ *  - `Home`/`End` (`TreeNavigator#first`/`TreeNavigator#last`) jump to the ends of the list
+ *  - Printable characters (`TreeNavigator#typeAhead`) jump to next item whose `fileName` starts with the typed characters
+ *
+ * Focused item is kept valid as the tree changes:
+ *  - When focused item is removed, focus lands on the item that took its place (or the last item if it was at the end)
+ *  - When a parent of focused item is removed, focus lands on the parent of the removed directory
+ *  - When focused item gets buried (a parent collapsed or moved into a collapsed directory), focus lands on the nearest visible parent
+ */
+export class TreeNavigator {
+	/**
+	 * Milliseconds after which characters given to `TreeNavigator#typeAhead` start a new search
+	 */
+	public typeAheadTimeout: number
+
+	private root: Root
+	private events: Notificar<TreeNavigatorEvent>
+	private disposables: DisposablesComposite
+	private _focused: FileOrDir
+	/**
+	 * Last known index of focused item
+	 */
+	private lastIndex: number
+	/**
+	 * Top-most item of the removed branch that contained focused item
+	 */
+	private removedAncestor: FileOrDir
+	private removedAncestorParent: Directory
+	private typeAheadBuffer: string
+	private lastTypeAheadAt: number
+	private _disposed: boolean
+
+	constructor(root: Root, typeAheadTimeout = 500) {
+		this.root = root
+		this.typeAheadTimeout = typeAheadTimeout
+		this.events = new Notificar()
+		this.disposables = new DisposablesComposite()
+		this._focused = null
+		this.lastIndex = -1
+		this.typeAheadBuffer = ''
+		this.lastTypeAheadAt = 0
+		this._disposed = false
+
+		this.disposables.add(root.onDidUpdate(this.handleBranchUpdate))
+		this.disposables.add(root.onWillDispose(this.handleWillDispose))
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Currently focused item (`null` if nothing is focused)
+	 */
+	get focused(): FileOrDir {
+		return this._focused
+	}
+
+	/**
+	 * Index of focused item in flattened structure of `Root` (`-1` if nothing is focused)
+	 */
+	get focusedIndex(): number {
+		return this._focused ? this.lastIndex : -1
+	}
+
+	/**
+	 * Focuses given item, which must be visible at surface (use `Root#expandDirectory` with `ensureVisible` first if it isn't)
+	 */
+	public focus(item: FileOrDir): FileOrDir {
+		this.assertUsable()
+		if (item === null) {
+			return this.setFocus(null, -1)
+		}
+		const index = this.root.getIndexAtFileEntry(item)
+		if (index === -1) {
+			throw new Error(`Cannot focus an item that is not visible at surface`)
+		}
+		return this.setFocus(item, index)
+	}
+
+	/**
+	 * Moves focus to next visible item (`Down` key). Focuses first item if nothing is focused
+	 */
+	public next(): FileOrDir {
+		this.assertUsable()
+		const index = this.focusedIndex
+		if (index === -1) {
+			return this.first()
+		}
+		return index + 1 < this.root.branchSize ? this.focusIndex(index + 1) : this._focused
+	}
+
+	/**
+	 * Moves focus to previous visible item (`Up` key). Focuses last item if nothing is focused
+	 */
+	public prev(): FileOrDir {
+		this.assertUsable()
+		const index = this.focusedIndex
+		if (index === -1) {
+			return this.last()
+		}
+		return index > 0 ? this.focusIndex(index - 1) : this._focused
+	}
+
+	/**
+	 * Focuses first visible item (`Home` key)
+	 */
+	public first(): FileOrDir {
+		this.assertUsable()
+		return this.root.branchSize > 0 ? this.focusIndex(0) : this.setFocus(null, -1)
+	}
+
+	/**
+	 * Focuses last visible item (`End` key)
+	 */
+	public last(): FileOrDir {
+		this.assertUsable()
+		return this.root.branchSize > 0 ? this.focusIndex(this.root.branchSize - 1) : this.setFocus(null, -1)
+	}
+
+	/**
+	 * `Left` key: collapses focused directory if it's expanded, otherwise moves focus to its parent
+	 */
+	public left(): FileOrDir {
+		this.assertUsable()
+		const item = this.focused
+		if (!item) {
+			return this.first()
+		}
+		if (item.type === FileType.Directory && (item as Directory).expanded) {
+			this.root.collapseDirectory(item as Directory)
+			return item
+		}
+		// with compact folders, parents sharing the row of `item` are skipped
+		const rowHead = item.type === FileType.Directory ? this.root.getCompactChain(item as Directory)[0] : item
+		if (rowHead.parent && rowHead.parent !== this.root) {
+			return this.focus(rowHead.parent)
+		}
+		return item
+	}
+
+	/**
+	 * `Right` key: expands focused directory if it's collapsed, otherwise moves focus to its first child
+	 */
+	public async right(): Promise<FileOrDir> {
+		this.assertUsable()
+		const item = this.focused
+		if (!item) {
+			return this.first()
+		}
+		if (item.type !== FileType.Directory) {
+			return item
+		}
+		if (!(item as Directory).expanded) {
+			await this.root.expandDirectory(item as Directory)
+			return this.focused
+		}
+		const children = (item as Directory).children
+		if (children && children.length > 0) {
+			return this.focus(children[0])
+		}
+		return item
+	}
+
+	/**
+	 * Type-ahead find
+	 *
+	 * Characters typed within `TreeNavigator#typeAheadTimeout` milliseconds of each other are accumulated into one search term. Search is case insensitive,
+	 * starts after focused item (or at it, while the term is being extended) and wraps around. Focus does not change if nothing matches.
+	 */
+	public typeAhead(chars: string): FileOrDir {
+		this.assertUsable()
+		const now = Date.now()
+		const extending = this.typeAheadBuffer.length > 0 && now - this.lastTypeAheadAt <= this.typeAheadTimeout
+		this.typeAheadBuffer = (extending ? this.typeAheadBuffer : '') + chars.toLowerCase()
+		this.lastTypeAheadAt = now
+
+		const size = this.root.branchSize
+		const index = this.focusedIndex
+		const start = index === -1 ? 0 : (extending ? index : index + 1)
+		for (let i = 0; i < size; i++) {
+			const candidateIdx = (start + i) % size
+			const row = this.root.getFileEntryAtIndex(candidateIdx)
+			// chains of compacted directories are typed into by their top-most name
+			const candidate = Root.isCompactRow(row) ? row.directories[0] : row
+			if (candidate.fileName.toLowerCase().startsWith(this.typeAheadBuffer)) {
+				return this.focusIndex(candidateIdx)
+			}
+		}
+		return this._focused
+	}
+
+	public onDidChangeFocus(callback: (focused: FileOrDir, prevFocused: FileOrDir) => void): IDisposable {
+		return this.events.add(TreeNavigatorEvent.DidChangeFocus, callback)
+	}
+
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		this.disposables.dispose()
+		this._focused = null
+		this.removedAncestor = null
+		this.removedAncestorParent = null
+	}
+
+	private assertUsable() {
+		if (this._disposed) {
+			throw new Error(`TreeNavigator is disposed`)
+		}
+	}
+
+	private focusIndex(index: number) {
+		const row = this.root.getFileEntryAtIndex(index)
+		return this.setFocus(Root.isCompactRow(row) ? row.item : row, index)
+	}
+
+	private setFocus(item: FileOrDir, index: number) {
+		const prevFocused = this._focused
+		this._focused = item
+		this.lastIndex = index
+		this.removedAncestor = null
+		this.removedAncestorParent = null
+		if (prevFocused !== item) {
+			this.events.dispatch(TreeNavigatorEvent.DidChangeFocus, item, prevFocused)
+		}
+		return item
+	}
+
+	/**
+	 * `Root` notifies once a change is complete (a move or a removal is a single update), so focus can be re-validated right away
+	 */
+	private handleBranchUpdate = () => {
+		if (this._focused) {
+			this.resolveFocus()
+		}
+	}
+
+	private handleWillDispose = (target: FileOrDir) => {
+		if (!this._focused) {
+			return
+		}
+		// Descendants are disposed before their parents, so the last call here will be for the top-most removed item
+		for (let item = this._focused; item; item = item.parent) {
+			if (item === target) {
+				this.removedAncestor = target
+				this.removedAncestorParent = target.parent
+				return
+			}
+		}
+	}
+
+	private resolveFocus() {
+		const focused = this._focused
+		const index = this.root.getIndexAtFileEntry(focused)
+		if (index > -1) {
+			this.lastIndex = index
+			return
+		}
+		const size = this.root.branchSize
+		if (focused.disposed && this.removedAncestor === focused) {
+			return size > 0 ? this.focusIndex(Math.min(this.lastIndex, size - 1)) : this.setFocus(null, -1)
+		}
+		let candidate: Directory = focused.disposed ? this.removedAncestorParent : focused.parent
+		while (candidate && candidate !== this.root && (candidate.disposed || !this.root.isItemVisibleAtSurface(candidate))) {
+			candidate = candidate.parent
+		}
+		if (candidate && candidate !== this.root) {
+			return this.focus(candidate)
+		}
+		return size > 0 ? this.focusIndex(Math.min(Math.max(this.lastIndex, 0), size - 1)) : this.setFocus(null, -1)
+	}
+}
@@ -0,0 +1,170 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { Root } from './Root'
+import { FileOrDir } from './types'
+
+enum TreeSelectionEvent {
+	DidChange = 1,
+}
+
+/**
+ * Selection model for a `Root`
+ *
+ * Supports single (click), toggle (ctrl + click) and range (shift + click) selection. Ranges are resolved over the flattened structure of `Root`
+ * (as in `Root#getIndexAtFileEntry`), thus only items visible at surface end up in a range.
+ *
+ * Disposed items are pruned from selection automatically. Moved items stay selected.
+ */
+export class TreeSelection {
+	private root: Root
+	private events: Notificar<TreeSelectionEvent>
+	private disposables: DisposablesComposite
+	private selection: Set<FileOrDir>
+	private _anchor: FileOrDir
+	private _focus: FileOrDir
+	private _disposed: boolean
+
+	constructor(root: Root) {
+		this.root = root
+		this.events = new Notificar()
+		this.disposables = new DisposablesComposite()
+		this.selection = new Set()
+		this._anchor = null
+		this._focus = null
+		this._disposed = false
+
+		this.disposables.add(root.onDidDispose(this.handleDispose))
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Item range selections start from (last item that was selected or toggled without `shift`)
+	 */
+	get anchor() { return this._anchor }
+
+	/**
+	 * Item that was acted upon most recently
+	 */
+	get focus() { return this._focus }
+
+	/**
+	 * Selected items in order they were selected
+	 */
+	get selectedItems(): FileOrDir[] {
+		return Array.from(this.selection)
+	}
+
+	get size() {
+		return this.selection.size
+	}
+
+	public isSelected(item: FileOrDir): boolean {
+		return this.selection.has(item)
+	}
+
+	/**
+	 * Replaces current selection with given item (plain click)
+	 */
+	public select(item: FileOrDir) {
+		this.assertUsable(item)
+		this.selection.clear()
+		this.selection.add(item)
+		this._anchor = item
+		this._focus = item
+		this.notifyDidChange()
+	}
+
+	/**
+	 * Adds the item to selection if not already selected, otherwise removes it (ctrl + click)
+	 */
+	public toggle(item: FileOrDir) {
+		this.assertUsable(item)
+		if (!this.selection.delete(item)) {
+			this.selection.add(item)
+		}
+		this._anchor = item
+		this._focus = item
+		this.notifyDidChange()
+	}
+
+	/**
+	 * Selects every item (visible at surface) between `anchor` and given item, both inclusive (shift + click)
+	 *
+	 * Anchor stays where it was. If there's no anchor or it's not visible at surface, this behaves like `TreeSelection#select`
+	 *
+	 * @param item Item where the range ends
+	 * @param additive Keep the items selected previously (ctrl + shift + click)
+	 */
+	public selectRange(item: FileOrDir, additive = false) {
+		this.assertUsable(item)
+		const anchorIdx = this._anchor ? this.root.getIndexAtFileEntry(this._anchor) : -1
+		const itemIdx = this.root.getIndexAtFileEntry(item)
+		if (anchorIdx === -1 || itemIdx === -1) {
+			return this.select(item)
+		}
+		if (!additive) {
+			this.selection.clear()
+		}
+		const step = anchorIdx <= itemIdx ? 1 : -1
+		for (let i = anchorIdx; i !== itemIdx + step; i += step) {
+			const row = this.root.getFileEntryAtIndex(i)
+			this.selection.add(Root.isCompactRow(row) ? row.item : row)
+		}
+		this._focus = item
+		this.notifyDidChange()
+	}
+
+	public clear() {
+		if (this.selection.size === 0 && !this._anchor && !this._focus) {
+			return
+		}
+		this.selection.clear()
+		this._anchor = null
+		this._focus = null
+		this.notifyDidChange()
+	}
+
+	public onDidChangeSelection(callback: (selection: TreeSelection) => void): IDisposable {
+		return this.events.add(TreeSelectionEvent.DidChange, callback)
+	}
+
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		this.disposables.dispose()
+		this.selection.clear()
+		this._anchor = null
+		this._focus = null
+	}
+
+	private assertUsable(item: FileOrDir) {
+		if (this._disposed) {
+			throw new Error(`TreeSelection is disposed`)
+		}
+		if (!item || item.root !== this.root) {
+			throw new TypeError(`Item must belong to the Root this selection was created for`)
+		}
+		if (item.disposed) {
+			throw new Error(`Cannot select a disposed item`)
+		}
+	}
+
+	private notifyDidChange() {
+		this.events.dispatch(TreeSelectionEvent.DidChange, this)
+	}
+
+	private handleDispose = (target: FileOrDir) => {
+		let changed = this.selection.delete(target)
+		if (this._anchor === target) {
+			this._anchor = null
+			changed = true
+		}
+		if (this._focus === target) {
+			this._focus = null
+			changed = true
+		}
+		if (changed) {
+			this.notifyDidChange()
+		}
+	}
+}
@@ -0,0 +1,181 @@
+import { DisposablesComposite, IDisposable, Notificar } from 'notificar'
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileOrDir, FileType } from './types'
+
+enum TreeStateEvent {
+	DidChange = 1,
+}
+
+/**
+ * JSON friendly representation of expansion state of a tree
+ *
+ * All paths are relative to `Root#path`
+ */
+export interface ISerializableState {
+	specVersion: number
+	expandedDirectories: {
+		/**
+		 * Expanded directories whose every parent is expanded as well (thus visible at surface)
+		 */
+		atSurface: string[]
+		/**
+		 * Expanded directories with at least one of the parents in collapsed state
+		 */
+		buried: string[],
+	}
+}
+
+/**
+ * Keeps track of expanded directories in a `Root` (by their relative paths)
+ *
+ * Renames and moves are followed automatically, so snapshots will always reflect where the directories are now
+ *
+ * Use `TreeStateWatcher#snapshot` to get a serializable state, which can later be mounted back using `TreeStateWatcher#restore`
+ */
+export class TreeStateWatcher {
+	public static readonly specVersion = 1
+
+	private root: Root
+	private events: Notificar<TreeStateEvent>
+	private disposables: DisposablesComposite
+	private expandedDirectories: Map<Directory, string>
+	private _disposed: boolean
+
+	constructor(root: Root) {
+		this.root = root
+		this.events = new Notificar()
+		this.disposables = new DisposablesComposite()
+		this.expandedDirectories = new Map()
+		this._disposed = false
+
+		this.collectExpandedDirectories(root)
+
+		this.disposables.add(root.onDidChangeDirExpansionState(this.handleExpansionChange))
+		this.disposables.add(root.onDidChangeParent(this.handlePathChange))
+		this.disposables.add(root.onDidChangePath(this.handlePathChange))
+		this.disposables.add(root.onWillDispose(this.handleDispose))
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Callback is called whenever a directory gets expanded, collapsed or the path of an expanded directory changes
+	 */
+	public onChange(callback: (state: TreeStateWatcher) => void): IDisposable {
+		return this.events.add(TreeStateEvent.DidChange, callback)
+	}
+
+	/**
+	 * Returns a serializable snapshot of current expansion state of the tree
+	 *
+	 * Parent directories always come before their children (siblings are ordered by path)
+	 */
+	public snapshot(): ISerializableState {
+		const atSurface: string[] = []
+		const buried: string[] = []
+		const sorted = Array.from(this.expandedDirectories.entries())
+			.sort(([a, pathA], [b, pathB]) => (a.depth - b.depth) || (pathA > pathB ? 1 : pathA < pathB ? -1 : 0))
+		for (const [directory, relativePath] of sorted) {
+			if (this.root.isItemVisibleAtSurface(directory)) {
+				atSurface.push(relativePath)
+			} else {
+				buried.push(relativePath)
+			}
+		}
+		return {
+			specVersion: TreeStateWatcher.specVersion,
+			expandedDirectories: { atSurface, buried },
+		}
+	}
+
+	/**
+	 * Mounts a snapshot previously generated by `TreeStateWatcher#snapshot`
+	 *
+	 * Directories along the recorded paths are force loaded and expanded (without altering visual state of their parents). Paths that no longer exist are skipped silently.
+	 */
+	public async restore(state: ISerializableState | string): Promise<void> {
+		if (this._disposed) {
+			throw new Error(`TreeStateWatcher is disposed`)
+		}
+		if (typeof state === 'string') {
+			state = JSON.parse(state) as ISerializableState
+		}
+		if (!state || state.specVersion !== TreeStateWatcher.specVersion) {
+			throw new TypeError(`Expected a snapshot with specVersion ${TreeStateWatcher.specVersion}`)
+		}
+		const { atSurface, buried } = state.expandedDirectories
+		const paths = [...atSurface, ...buried]
+			.sort((a, b) => this.root.pathfx.pathDepth(a) - this.root.pathfx.pathDepth(b))
+		for (const relativePath of paths) {
+			let directory: FileOrDir
+			try {
+				directory = await this.root.forceLoadFileEntryAtPath(relativePath)
+			} catch (error) {
+				continue
+			}
+			if (directory && directory.type === FileType.Directory && directory !== this.root) {
+				await this.root.expandDirectory(directory as Directory, false)
+			}
+		}
+	}
+
+	public toString() {
+		return JSON.stringify(this.snapshot())
+	}
+
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		this.disposables.dispose()
+		this.expandedDirectories.clear()
+	}
+
+	private collectExpandedDirectories(directory: Directory) {
+		const children = directory.children
+		if (!children) {
+			return
+		}
+		for (const child of children) {
+			if (child.type === FileType.Directory) {
+				if ((child as Directory).expanded) {
+					this.expandedDirectories.set(child as Directory, this.relativePathOf(child))
+				}
+				this.collectExpandedDirectories(child as Directory)
+			}
+		}
+	}
+
+	private relativePathOf(item: FileOrDir) {
+		return this.root.pathfx.relative(this.root.path, item.path)
+	}
+
+	private handleExpansionChange = (directory: Directory, nowExpanded: boolean) => {
+		if (directory === this.root) {
+			return
+		}
+		if (nowExpanded) {
+			this.expandedDirectories.set(directory, this.relativePathOf(directory))
+		} else {
+			this.expandedDirectories.delete(directory)
+		}
+		this.events.dispatch(TreeStateEvent.DidChange, this)
+	}
+
+	private handlePathChange = (target: FileOrDir) => {
+		if (!this.expandedDirectories.has(target as Directory) || target.disposed) {
+			return
+		}
+		const relativePath = this.relativePathOf(target)
+		if (this.expandedDirectories.get(target as Directory) !== relativePath) {
+			this.expandedDirectories.set(target as Directory, relativePath)
+			this.events.dispatch(TreeStateEvent.DidChange, this)
+		}
+	}
+
+	private handleDispose = (target: FileOrDir) => {
+		if (this.expandedDirectories.delete(target as Directory)) {
+			this.events.dispatch(TreeStateEvent.DidChange, this)
+		}
+	}
+}
@@ -0,0 +1,272 @@
+import { Directory } from './Directory'
+import { Root } from './Root'
+import { FileType, IFileEntryItem, IWatcherEvent, WatchEvent } from './types'
+
+/**
+ * Raw event names as emitted by tools like `chokidar`
+ */
+export type RawWatchEventType = 'add' | 'addDir' | 'unlink' | 'unlinkDir'
+
+/**
+ * Optional details about an entry that was added
+ */
+export interface IRawWatchEventDetails {
+	metadata?: { [key: string]: any }
+	/**
+	 * See `IFileEntryItem#key`. When given for both ends, unlink and add are paired into a move by key alone
+	 */
+	key?: string
+}
+
+interface IRawEvent {
+	added: boolean
+	type: FileType
+	path: string
+	details: IRawWatchEventDetails
+	/**
+	 * Other end of a move
+	 */
+	pair: IRawEvent
+}
+
+/**
+ * Turns raw watcher notifications (like `chokidar`'s) into `IWatcherEvent`s for `Root#inotify`
+ *
+ * Events are buffered for a short window (`delay`) and then:
+ *  - An unlink paired with an add of same type becomes `WatchEvent.Moved`. Pairs are matched by `key` (if both have one), then by being the only
+ *    unlink and add in a directory (a rename), then by name if no other unlink or add in the window has that name (a move across directories).
+ *    Whatever is still ambiguous comes out as a removal and an addition
+ *  - Duplicates are collapsed, an add and unlink of same path cancel each other out
+ *  - Events inside directories that are themselves added, removed or moved in the same window are dropped (parent's event covers them)
+ *  - Events for paths outside `Root#path`, or in directories that aren't loaded, are dropped as `Root` would ignore them anyway
+ *
+ * Everything that's left is dispatched using `Root#inotifyMany`
+ */
+export class WatchEventNormalizer {
+	private root: Root
+	private delay: number
+	private buffer: IRawEvent[]
+	private maxWait: number
+	private flushTimeout: ReturnType<typeof setTimeout>
+	private maxWaitTimeout: ReturnType<typeof setTimeout>
+	private _disposed: boolean
+
+	/**
+	 * @param delay Milliseconds to buffer events for (window restarts with every event). Defaults to `50`
+	 * @param maxWait Milliseconds after which buffered events are dispatched even if new ones keep the window open. Defaults to `1000`
+	 */
+	constructor(root: Root, delay = 50, maxWait = 1000) {
+		this.root = root
+		this.delay = delay
+		this.maxWait = maxWait
+		this.buffer = []
+		this.flushTimeout = null
+		this.maxWaitTimeout = null
+		this._disposed = false
+	}
+
+	get disposed() { return this._disposed }
+
+	/**
+	 * Queues a raw event, other event names (like `change` or `ready`) are ignored
+	 *
+	 * Can be passed to `chokidar` as is: `watcher.on('all', (event, path) => normalizer.push(event, path))`
+	 */
+	public push(event: RawWatchEventType | string, path: string, details: IRawWatchEventDetails = {}) {
+		if (this._disposed) {
+			throw new Error(`WatchEventNormalizer is disposed`)
+		}
+		if (event !== 'add' && event !== 'addDir' && event !== 'unlink' && event !== 'unlinkDir') {
+			return
+		}
+		if (typeof path !== 'string' || this.root.pathfx.isRelative(path)) {
+			throw new TypeError(`Path must be absolute`)
+		}
+		this.buffer.push({
+			added: event === 'add' || event === 'addDir',
+			type: event === 'addDir' || event === 'unlinkDir' ? FileType.Directory : FileType.File,
+			path: this.root.pathfx.removeTrailingSlashes(this.root.pathfx.normalize(path)),
+			details: details || {},
+			pair: null,
+		})
+		clearTimeout(this.flushTimeout)
+		this.flushTimeout = setTimeout(this.flush, this.delay)
+		if (this.maxWaitTimeout === null) {
+			this.maxWaitTimeout = setTimeout(this.flush, this.maxWait)
+		}
+	}
+
+	/**
+	 * Dispatches buffered events right away
+	 */
+	public flush = () => {
+		clearTimeout(this.flushTimeout)
+		clearTimeout(this.maxWaitTimeout)
+		this.flushTimeout = null
+		this.maxWaitTimeout = null
+		const buffer = this.buffer
+		this.buffer = []
+		if (this._disposed || this.root.disposed || buffer.length === 0) {
+			return
+		}
+		const events = this.normalize(buffer)
+		if (events.length > 0) {
+			this.root.inotifyMany(events)
+		}
+	}
+
+	/**
+	 * Drops buffered events and stops the timers
+	 */
+	public dispose() {
+		if (this._disposed) { return }
+		this._disposed = true
+		clearTimeout(this.flushTimeout)
+		clearTimeout(this.maxWaitTimeout)
+		this.buffer = []
+	}
+
+	private normalize(buffer: IRawEvent[]): IWatcherEvent[] {
+		const { isPathInside } = this.root.pathfx
+		const rootPath = this.root.path
+		const events = this.collapse(buffer.filter((event) => event.path !== rootPath && isPathInside(event.path, rootPath)))
+		this.pairMoves(events)
+
+		// paths that the "top-most" events are about, anything under them is covered already
+		const structural: string[] = []
+		for (let i = 0; i < events.length; i++) {
+			const event = events[i]
+			if (event.type === FileType.Directory && !(event.pair && event.added)) {
+				structural.push(event.path)
+				if (event.pair) {
+					structural.push(event.pair.path)
+				}
+			}
+		}
+		const isCovered = (path: string) => structural.some((dir) => path !== dir && isPathInside(path, dir))
+
+		const result: IWatcherEvent[] = []
+		for (let i = 0; i < events.length; i++) {
+			const event = events[i]
+			// moves are handled from their unlink end
+			if (event.pair && event.added) {
+				continue
+			}
+			if (event.pair) {
+				const target = event.pair
+				const fromCovered = isCovered(event.path)
+				const toCovered = isCovered(target.path)
+				if (fromCovered && toCovered) {
+					continue
+				}
+				if (fromCovered || !this.isLoaded(this.root.pathfx.dirname(event.path))) {
+					if (!toCovered && this.isLoaded(this.root.pathfx.dirname(target.path))) {
+						result.push(this.toAddEvent(target))
+					}
+					continue
+				}
+				// `Root` unlinks the item if destination isn't loaded (or is covered by another event)
+				result.push(toCovered
+					? { type: WatchEvent.Removed, path: event.path }
+					: { type: WatchEvent.Moved, oldPath: event.path, newPath: target.path })
+				continue
+			}
+			if (isCovered(event.path) || !this.isLoaded(this.root.pathfx.dirname(event.path))) {
+				continue
+			}
+			result.push(event.added ? this.toAddEvent(event) : { type: WatchEvent.Removed, path: event.path })
+		}
+		return result
+	}
+
+	/**
+	 * Keeps only the net effect of events for every path (judging by the first and the last one), in order of their first appearance
+	 */
+	private collapse(buffer: IRawEvent[]): IRawEvent[] {
+		const byPath: Map<string, { first: IRawEvent, last: IRawEvent }> = new Map()
+		for (let i = 0; i < buffer.length; i++) {
+			const event = buffer[i]
+			const seen = byPath.get(event.path)
+			if (seen) {
+				seen.last = event
+			} else {
+				byPath.set(event.path, { first: event, last: event })
+			}
+		}
+		const result: IRawEvent[] = []
+		for (const { first, last } of byPath.values()) {
+			const existedBefore = !first.added
+			const existsAfter = last.added
+			if (existedBefore && existsAfter) {
+				// replaced (like an atomic save), only a change of type is structural
+				if (first.type !== last.type) {
+					result.push(first, last)
+				}
+			} else if (existedBefore) {
+				result.push(first)
+			} else if (existsAfter) {
+				result.push(last)
+			}
+			// otherwise added and gone within the window, as if nothing happened
+		}
+		return result
+	}
+
+	private pairMoves(events: IRawEvent[]) {
+		const { basename, dirname } = this.root.pathfx
+		const unlinks = events.filter((event) => !event.added)
+		const adds = events.filter((event) => event.added)
+		const link = (from: IRawEvent, to: IRawEvent) => {
+			from.pair = to
+			to.pair = from
+		}
+		const candidates = (add: IRawEvent) => unlinks.filter((unlink) => !unlink.pair && unlink.type === add.type)
+		for (let i = 0; i < adds.length; i++) {
+			const add = adds[i]
+			const match = typeof add.details.key === 'string' && candidates(add).find((unlink) => unlink.details.key === add.details.key)
+			if (match) {
+				link(match, add)
+			}
+		}
+		for (let i = 0; i < adds.length; i++) {
+			const add = adds[i]
+			if (add.pair) {
+				continue
+			}
+			const directory = dirname(add.path)
+			const fromSameDir = candidates(add).filter((unlink) => dirname(unlink.path) === directory)
+			const addsInDir = adds.filter((other) => !other.pair && other.type === add.type && dirname(other.path) === directory)
+			if (fromSameDir.length === 1 && addsInDir.length === 1) {
+				link(fromSameDir[0], add)
+			}
+		}
+		for (let i = 0; i < adds.length; i++) {
+			const add = adds[i]
+			if (add.pair) {
+				continue
+			}
+			const name = basename(add.path)
+			const sameName = candidates(add).filter((unlink) => basename(unlink.path) === name)
+			const addsWithName = adds.filter((other) => !other.pair && other.type === add.type && basename(other.path) === name)
+			if (sameName.length === 1 && addsWithName.length === 1) {
+				link(sameName[0], add)
+			}
+		}
+	}
+
+	private isLoaded(directory: string): boolean {
+		let item
+		try {
+			item = this.root.findFileEntryInLoadedTree(directory)
+		} catch (error) {
+			return false
+		}
+		return !!item && item.type === FileType.Directory && !!(item as Directory).children
+	}
+
+	private toAddEvent(event: IRawEvent): IWatcherEvent {
+		const { basename, dirname } = this.root.pathfx
+		const file: IFileEntryItem = { name: basename(event.path), type: event.type, metadata: event.details.metadata, key: event.details.key }
+		return { type: WatchEvent.Added, directory: dirname(event.path), file }
+	}
+}
@@ -0,0 +1,137 @@
+import { FileType, SortComparator } from './types'
+
+/**
+ * Comparators to use as `host.sortComparator` (or with `Root#setSortComparator`), combine them using `compose`
+ *
+ * Every comparator here tells files from directories by `type`, never by `instanceof` or constructors. Comparators that group or compare by
+ * something other than name return `0` for entries they consider equal, leaving the order to the next comparator in `compose`.
+ *
+ * ```typescript
+ * import { comparators } from 'aspen-core'
+ * const { compose, foldersFirst, byNameNatural } = comparators
+ * root.setSortComparator(compose(foldersFirst, byNameNatural))
+ * ```
+ */
+
+const NUMERIC_CHUNK = /(\d+)/
+
+function compareStrings(a: string, b: string): number {
+	return a > b ? 1 : a < b ? -1 : 0
+}
+
+/**
+ * Compares digit-only strings by their numeric value, without the limits of `Number`
+ */
+function compareNumericChunks(a: string, b: string): number {
+	const trimmedA = a.replace(/^0+(?=\d)/, '')
+	const trimmedB = b.replace(/^0+(?=\d)/, '')
+	return trimmedA.length - trimmedB.length || compareStrings(trimmedA, trimmedB)
+}
+
+function extensionOf(fileName: string): string {
+	const dot = fileName.lastIndexOf('.')
+	// dotfiles like `.gitignore` have no extension
+	return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : ''
+}
+
+function compareValues(a: any, b: any): number {
+	if (a instanceof Date) { a = a.getTime() }
+	if (b instanceof Date) { b = b.getTime() }
+	if (typeof a === 'number' && typeof b === 'number') {
+		return a - b
+	}
+	return compareStrings(String(a), String(b))
+}
+
+/**
+ * Chains comparators, each one breaks ties left by the ones before it
+ */
+export function compose(...comparators: SortComparator[]): SortComparator {
+	return (a, b) => {
+		for (let i = 0; i < comparators.length; i++) {
+			const result = comparators[i](a, b)
+			if (result !== 0) {
+				return result
+			}
+		}
+		return 0
+	}
+}
+
+/**
+ * Directories before files
+ */
+export const foldersFirst: SortComparator = (a, b) =>
+	a.type === b.type ? 0 : a.type === FileType.Directory ? -1 : 1
+
+/**
+ * Files before directories
+ */
+export const filesFirst: SortComparator = (a, b) =>
+	a.type === b.type ? 0 : a.type === FileType.File ? -1 : 1
+
+/**
+ * Files and directories intermixed, considers everything equal (handy when grouping is picked from a setting)
+ */
+export const mixed: SortComparator = () => 0
+
+/**
+ * By `fileName`, comparing UTF-16 code units (`B` comes before `a`, `file10` before `file2`)
+ */
+export const byName: SortComparator = (a, b) => compareStrings(a.fileName, b.fileName)
+
+/**
+ * By `fileName`, ignoring case (names differing only in case are ordered by `byName`)
+ */
+export const byNameCaseInsensitive: SortComparator = (a, b) =>
+	compareStrings(a.fileName.toLowerCase(), b.fileName.toLowerCase()) || byName(a, b)
+
+/**
+ * By `fileName`, ignoring case and comparing runs of digits by their numeric value (`file2` comes before `file10`)
+ */
+export const byNameNatural: SortComparator = (a, b) => {
+	const chunksA = a.fileName.toLowerCase().split(NUMERIC_CHUNK)
+	const chunksB = b.fileName.toLowerCase().split(NUMERIC_CHUNK)
+	const length = Math.min(chunksA.length, chunksB.length)
+	for (let i = 0; i < length; i++) {
+		// `split` with a capturing group puts digit runs at odd indices
+		const result = i % 2 === 1 ? compareNumericChunks(chunksA[i], chunksB[i]) : compareStrings(chunksA[i], chunksB[i])
+		if (result !== 0) {
+			return result
+		}
+	}
+	return chunksA.length - chunksB.length || byName(a, b)
+}
+
+/**
+ * By `fileName` using an `Intl.Collator`, defaults to natural (`numeric`) comparison in user's locale
+ */
+export function byNameLocale(locales?: string | string[], options: Intl.CollatorOptions = { numeric: true }): SortComparator {
+	const collator = new Intl.Collator(locales, options)
+	return (a, b) => collator.compare(a.fileName, b.fileName) || byName(a, b)
+}
+
+/**
+ * Groups files by extension (case insensitive, files without one come first), directories are considered to have no extension
+ */
+export const byExtension: SortComparator = (a, b) =>
+	compareStrings(a.type === FileType.File ? extensionOf(a.fileName) : '', b.type === FileType.File ? extensionOf(b.fileName) : '')
+
+/**
+ * By metadata value at `key` (numbers, `Date`s or anything else as strings), entries without one always come last
+ *
+ * Pass the same `key` as `metadataKeys` to `Root#setSortComparator`, so entries get repositioned when their value changes
+ */
+export function byMetadata(key: string, direction: 'asc' | 'desc' = 'asc'): SortComparator {
+	const sign = direction === 'desc' ? -1 : 1
+	return (a, b) => {
+		const valueA = a.getMetadata(key)
+		const valueB = b.getMetadata(key)
+		const missingA = valueA === undefined || valueA === null
+		const missingB = valueB === undefined || valueB === null
+		if (missingA || missingB) {
+			return missingA === missingB ? 0 : missingA ? 1 : -1
+		}
+		return sign * compareValues(valueA, valueB)
+	}
+}
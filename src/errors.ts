@@ -0,0 +1,61 @@
+/**
+ * Thrown when a path cannot be resolved in the tree (see `Root#forceLoadFileEntryAtPath` or `Root#revealPath`)
+ */
+export class PathNotFoundError extends Error {
+	/**
+	 * Path that was looked up
+	 */
+	public readonly path: string
+
+	/**
+	 * First segment of `path` that does not exist (or exists, but is a file while there's still more path to go)
+	 */
+	public readonly segment: string
+
+	constructor(path: string, segment: string) {
+		super(`'${path}' not found ('${segment}' does not exist)`)
+		this.name = 'PathNotFoundError'
+		this.path = path
+		this.segment = segment
+	}
+}
+
+/**
+ * Rejection reason of a `Directory` load that was cancelled, because the directory got collapsed (before the load ended) or disposed
+ *
+ * Results of cancelled loads are never applied. See `Root#onDidAbortLoadDirectory`
+ */
+export class LoadAbortedError extends Error {
+	/**
+	 * Path the directory was being listed at
+	 */
+	public readonly path: string
+
+	constructor(path: string) {
+		super(`Loading '${path}' was aborted`)
+		this.name = 'LoadAbortedError'
+		this.path = path
+	}
+}
+
+/**
+ * Thrown by `Root#revealPath` when watch events keep moving or removing entries along the path while it's being loaded, so it never settles
+ */
+export class PathChangedError extends Error {
+	/**
+	 * Path that was being revealed
+	 */
+	public readonly path: string
+
+	/**
+	 * Number of lookups made before giving up
+	 */
+	public readonly attempts: number
+
+	constructor(path: string, attempts: number) {
+		super(`'${path}' kept changing while being revealed (gave up after ${attempts} attempts)`)
+		this.name = 'PathChangedError'
+		this.path = path
+		this.attempts = attempts
+	}
+}
@@ -1,9 +1,23 @@
+import * as comparators from './comparators'
+
 export { FileEntry } from './FileEntry'
 export { Directory } from './Directory'
 export { Root } from './Root'
+export { MultiRootTree } from './MultiRootTree'
+export { LoadAbortedError, PathChangedError, PathNotFoundError } from './errors'
+export { comparators }
+export { FilteredView, FilterPredicate } from './FilteredView'
+export { TreeNavigator } from './TreeNavigator'
+export { TreeSelection } from './TreeSelection'
+export { TreeDecorations, IDecoration, IAggregatedDecoration, IDecorationProvider } from './TreeDecorations'
+export { TreeStateWatcher, ISerializableState } from './TreeStateWatcher'
+export { WatchEventNormalizer, RawWatchEventType, IRawWatchEventDetails } from './WatchEventNormalizer'
+export { MemoryFileSystemHost, IMemoryFileSystemHostOptions, IMemoryTree } from './MemoryFileSystemHost'
+// `NodeFileSystemHost` depends on `fs` and is left out to keep the index usable in browsers, import it from 'aspen-core/dist/NodeFileSystemHost'
 export {
 	FileOrDir,
 	FileType,
+	DirectoryLoadState,
 	MetadataChangeType,
 	IMetadataChange,
 	WatcherCallback,
@@ -15,5 +29,13 @@ export {
 	IWatcherChangeEvent,
 	IWatcherAddEvent,
 	IFileEntryItem,
+	ItemsOrPages,
+	IAbortSignal,
+	IExpandAllOptions,
+	ICompactRow,
+	IRefreshOptions,
+	SortComparator,
+	ISerializedFileEntry,
+	ISerializedTree,
 	IBasicFileSystemHost,
 } from './types'
@@ -13,6 +13,12 @@ export enum FileTreeEvent {
 	DidProcessWatchEvent,
 	WillProcessWatchEvent,
 	DidChangeMetadata,
+	DidAddItem,
+	DidChangePartialLoadState,
+	WillLoadDirectory,
+	DidLoadDirectory,
+	DidFailLoadDirectory,
+	DidAbortLoadDirectory,
 }
 
 export enum MetadataChangeType {
@@ -37,6 +43,11 @@ export interface ITreeSupervisor {
 
 	// Helpers //
 	supervisedWatch(path: string, callback: WatcherCallback)
+	/**
+	 * Adds the item to the id registry of the `Root` and returns the id assigned to it
+	 */
+	registerFileEntry(target: FileEntry | Directory): number
+	unregisterFileEntry(target: FileEntry | Directory)
 
 	// Event delegations //
 
@@ -52,8 +63,15 @@ export interface ITreeSupervisor {
 	notifyWillChangeExpansionState(target: Directory, nowExpanded: boolean)
 	notifyDidChangeExpansionState(target: Directory, nowExpanded: boolean)
 
-	notifyDidChangePath(target: FileEntry | Directory)
+	notifyDidChangePath(target: FileEntry | Directory, prevPath: string)
 	notifyDidChangeMetadata(target: FileEntry | Directory, change: IMetadataChange)
+	notifyDidAddItem(target: FileEntry | Directory)
+	notifyDidChangePartialLoadState(target: Directory, partiallyLoaded: boolean)
+
+	notifyWillLoadDirectory(target: Directory)
+	notifyDidLoadDirectory(target: Directory)
+	notifyDidFailLoadDirectory(target: Directory, error: any)
+	notifyDidAbortLoadDirectory(target: Directory)
 }
 
 /**
@@ -97,6 +115,46 @@ export interface IFileEntryItem {
 	 *  - `ctime`, `mtime`, `size`, you name it
 	 */
 	readonly metadata?: { [key: string]: any }
+
+	/**
+	 * Optional stable identity of the file or directory
+	 *
+	 * When a `Directory` reconciles its contents (on `WatchEvent.Changed`), existing entries are matched against fresh items by this key. If omitted,
+	 * entries are matched by their name and type instead.
+	 *
+	 * Providing a key (like inode number or a hash of `ctime` + something) lets `aspen` detect renames that happened behind its back, so renamed entries
+	 * keep their ids, metadata and expansion state
+	 */
+	readonly key?: string
+}
+
+/**
+ * JSON friendly representation of a loaded `FileEntry` or `Directory`, as produced by `Root#serialize`
+ */
+export interface ISerializedFileEntry extends IFileEntryItem {
+	/**
+	 * Expansion state (only for directories whose children were loaded)
+	 */
+	readonly expanded?: boolean
+	/**
+	 * Children of the directory (only if they were loaded)
+	 */
+	readonly children?: ISerializedFileEntry[]
+}
+
+/**
+ * Snapshot of everything a `Root` has loaded, see `Root#serialize` and `Root#hydrate`
+ */
+export interface ISerializedTree {
+	readonly specVersion: number
+	/**
+	 * Path of the `Root` that was serialized
+	 */
+	readonly path: string
+	/**
+	 * Children of the `Root` (`null` if they weren't loaded)
+	 */
+	readonly children: ISerializedFileEntry[]
 }
 
 export enum FileType {
@@ -104,6 +162,28 @@ export enum FileType {
 	Directory,
 }
 
+/**
+ * Where a `Directory` is in the process of loading its contents, see `Directory#loadState`
+ */
+export enum DirectoryLoadState {
+	/**
+	 * Contents were never requested
+	 */
+	Idle = 1,
+	/**
+	 * `host.getItems` is in progress
+	 */
+	Loading,
+	/**
+	 * Contents are loaded (more pages might still be coming, see `Directory#partiallyLoaded`)
+	 */
+	Loaded,
+	/**
+	 * Most recent attempt to list the directory failed, see `Directory#loadError` and `Directory#retryLoad`
+	 */
+	Error,
+}
+
 /**
  * Function that when called should terminate a watch session associated with a directory
  */
@@ -146,8 +226,14 @@ export interface IBasicFileSystemHost {
 	 * There is no need to sort raw items. The parent `Directory` will call your `sortComparator` function (if specified) once raw items are converted to "real" objects
 	 *
 	 * Array of { name: string, type: FileType, attributes?: {[key: string]: any}}
+	 *
+	 * For very large directories, an async iterable of pages (arrays of items) can be returned instead. Directory becomes usable as soon as the first page
+	 * arrives, rest of the pages are merged into it (in sort order) as they come. `Directory#partiallyLoaded` stays `true` until the last page is in.
+	 *
+	 * `signal` gets aborted when results are no longer needed (directory was collapsed before the load ended, disposed or moved to another path). Host can
+	 * use it to stop listing early, results of aborted calls are ignored regardless.
 	 */
-	getItems: (path: string) => IFileEntryItem[] | Promise<IFileEntryItem[]>
+	getItems: (path: string, signal?: IAbortSignal) => ItemsOrPages | Promise<ItemsOrPages>
 
 	/**
 	 * Sorting comparator Directories should use when:
@@ -158,7 +244,14 @@ export interface IBasicFileSystemHost {
 	 * REMINDER: Avoid using `instanceof` when checking if an item is `Directory` or `FileEntry`. `instanceof` is computationally expensive and not required for this purpose.
 	 * Use `item.type === FileType.File` to check if item is `FileEntry` and `item.type === FileType.Directory` to check for `Directory`
 	 */
-	sortComparator?: (a: FileEntry | Directory, b: FileEntry | Directory) => number
+	sortComparator?: SortComparator
+
+	/**
+	 * Metadata keys `sortComparator` looks at (like `mtime` or `size`), entries get repositioned whenever one of these changes
+	 *
+	 * See `Root#setSortComparator` to change sort order at runtime
+	 */
+	readonly sortMetadataKeys?: string[]
 
 	/**
 	 * File watching
@@ -177,10 +270,83 @@ export interface IBasicFileSystemHost {
 	 *
 	 */
 	watch?: (path: string) => WatchTerminator
+
+	/**
+	 * Set to `true` if `host.watch` watches recursively (like `fs.watch` with `{ recursive: true }` on macOS and Windows)
+	 *
+	 * `Root` will then call `host.watch` only once, for its own path, and route every event to the loaded `Directory` it concerns. Events for directories
+	 * that aren't loaded (or don't exist in the tree) are ignored.
+	 */
+	readonly recursiveWatch?: boolean
 }
 
 export type FileOrDir = FileEntry | Directory
 
+/**
+ * Result of `IBasicFileSystemHost#getItems`, either all the items at once or pages of items as they get listed
+ */
+export type ItemsOrPages = IFileEntryItem[] | AsyncIterable<IFileEntryItem[]>
+
+/**
+ * Signal passed to `IBasicFileSystemHost#getItems`, the part of `AbortSignal` hosts need
+ */
+export interface IAbortSignal {
+	readonly aborted: boolean
+	addEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * Options as accepted by `Root#expandAll`
+ */
+export interface IExpandAllOptions {
+	/**
+	 * Levels of sub-directories to expand below the given directory (`0` expands only the directory itself). Defaults to `Infinity`
+	 */
+	maxDepth?: number
+	/**
+	 * Maximum number of `host.getItems` calls in flight at any given time. Defaults to `8`
+	 */
+	concurrency?: number
+	/**
+	 * Sub-directories for which this returns `false` are neither expanded nor descended into (given directory itself is always expanded)
+	 */
+	filter?: (directory: Directory) => boolean
+	/**
+	 * Same as `ensureVisible` in `Root#expandDirectory`. Defaults to `true`
+	 */
+	ensureVisible?: boolean
+}
+
+/**
+ * Row of the flattened structure that stands for a chain of compacted directories (like `src/main/java/com`), as returned by
+ * `Root#getFileEntryAtIndex` when compact folders are enabled
+ */
+export interface ICompactRow {
+	/**
+	 * Deepest directory of the chain, the one expanding or collapsing the row acts on
+	 */
+	item: Directory
+	/**
+	 * Directories shown in this row, top-most first (always more than one)
+	 */
+	directories: Directory[]
+}
+
+/**
+ * Options as accepted by `Root#refresh`
+ */
+export interface IRefreshOptions {
+	/**
+	 * Re-list loaded sub-directories too. Defaults to `false`
+	 */
+	recursive?: boolean
+}
+
+/**
+ * Compares siblings, just like what `Array#sort` expects
+ */
+export type SortComparator = (a: FileEntry | Directory, b: FileEntry | Directory) => number
+
 export type WatcherCallback = (event: IWatcherEvent) => void
 
 export type IWatcherEvent = IWatcherChangeEvent | IWatcherAddEvent | IWatcherRemoveEvent | IWatcherMoveEvent
@@ -191,9 +357,9 @@ export enum WatchEvent {
 	Removed,
 
 	/**
-	 * Avoid dispatching this at all costs!!
+	 * Generic "something changed" notification for a directory
 	 *
-	 * This event will cause a HARD reset on the directory it is dispatched at
+	 * Directory will re-list its contents and reconcile them with existing entries, only entries that were actually added or removed are affected
 	 */
 	Changed,
 
@@ -206,11 +372,13 @@ export enum WatchEvent {
 }
 
 /**
- * Avoid dispatching this at all costs
+ * Prefer dispatching specific events (`Added`, `Removed`, `Moved`) whenever possible, as this event requires re-listing the directory
  *
- * Expansion state of sub-directories WILL NOT be preserved since it's a hard reset at target level
+ * Fresh items are matched with existing entries by `IFileEntryItem#key` (or name and type if not available). Matched entries keep their ids, metadata and
+ * expansion state, the rest get removed or inserted
  *
- * Optionally you can use `TreeStateWatcher#snapshot` before dispatching `Change` event, then mount the snapshot afterwards to attempt expansion state restore
+ * Entries that cannot be matched (like renames without a `key`) are treated as new. Optionally you can use `TreeStateWatcher#snapshot` before dispatching
+ * `Change` event, then mount the snapshot afterwards using `TreeStateWatcher#restore` to attempt expansion state restore
  */
 export interface IWatcherChangeEvent {
 	type: WatchEvent.Changed